@@ -1,3 +1,4 @@
+import path from "path";
 import { defineConfig } from "rollup";
 import nodeResolve from "@rollup/plugin-node-resolve";
 import babel from "@rollup/plugin-babel";
@@ -16,6 +17,15 @@ const external = [...Object.keys(pkg.dependencies || {}), ...Object.keys(pkg.pee
   (name) => RegExp(`^${name}($|/)`)
 );
 
+// The testing entry point imports the MetricsQueue from the main bundle beside it (lib/metrics-queue.js or
+// es/metrics-queue.js) rather than bundling its own, so both share the global MetricsQueue
+const entryPoint = path.resolve("src/index");
+const isEntryPoint = (id) => id.replace(/\.ts$/, "") === entryPoint;
+const testingExternal = (id, parent) =>
+  external.some((pattern) => pattern.test(id)) ||
+  (!!parent && isEntryPoint(path.resolve(path.dirname(parent), id)));
+const testingPaths = (id) => (isEntryPoint(id) ? "./metrics-queue" : id);
+
 // eslint-disable-next-line import/no-default-export
 export default defineConfig([
   // CommonJS
@@ -60,6 +70,48 @@ export default defineConfig([
     ],
   },
 
+  // Testing CommonJS
+  {
+    input: "src/testing/index.ts",
+    output: { file: "lib/testing.js", format: "cjs", indent: false, paths: testingPaths },
+    external: testingExternal,
+    plugins: [
+      nodeResolve({
+        extensions,
+      }),
+      typescript({
+        tsconfig: "tsconfig.build.json",
+        tsconfigOverride: noDeclarationFiles,
+      }),
+      babel({
+        extensions,
+        plugins: [["@babel/plugin-transform-runtime", { version: babelRuntimeVersion }]],
+        babelHelpers: "runtime",
+      }),
+    ],
+  },
+
+  // Testing ES
+  {
+    input: "src/testing/index.ts",
+    output: { file: "es/testing.js", format: "es", indent: false, paths: testingPaths },
+    external: testingExternal,
+    plugins: [
+      nodeResolve({
+        extensions,
+      }),
+      typescript({
+        tsconfig: "tsconfig.build.json",
+        tsconfigOverride: noDeclarationFiles,
+      }),
+      babel({
+        extensions,
+        plugins: [["@babel/plugin-transform-runtime", { version: babelRuntimeVersion, useESModules: true }]],
+        babelHelpers: "runtime",
+      }),
+    ],
+  },
+
   // ES for Browsers
   {
     input: "src/index.ts",
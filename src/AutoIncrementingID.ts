@@ -8,9 +8,13 @@
  * A common usage example can be found in SQL tables. By default, a table's primary
  * keys are generated using auto incrementing integers that continue to increment
  * for the life of the table.
+ *
+ * The static ID space is shared by the default MetricsQueue. Instances created
+ * using createMetricsQueue each own an independent ID space.
  */
 export class AutoIncrementingID {
   private static incrementor = 0;
+  private incrementor = 0;
 
   public static get nextID(): string {
     return (this.incrementor++).toString();
@@ -19,4 +23,12 @@ export class AutoIncrementingID {
   public static destroy() {
     this.incrementor = 0;
   }
+
+  public get nextID(): string {
+    return (this.incrementor++).toString();
+  }
+
+  public destroy() {
+    this.incrementor = 0;
+  }
 }
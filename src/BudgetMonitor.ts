@@ -0,0 +1,97 @@
+import { MetricValue } from "./MetricValue";
+import { RollingWindow } from "./RollingWindow";
+import type { Budget, HashTable, Listener, BudgetViolation, BudgetPercentile } from "./types";
+
+/**
+ * Budget Monitor
+ *
+ * Evaluates metrics flowing through the MetricsQueue against performance budgets.
+ * A "max" budget is evaluated against each individual occurrence of a metric, while
+ * percentile budgets ("p50", "p75", "p90", "p95", "p99") are evaluated against a
+ * rolling window of the metric's most recent values. Percentile budgets are only
+ * evaluated once the window holds "minSamples" values (10 by default), so a single slow
+ * occurrence doesn't read as a slow percentile.
+ */
+export class BudgetMonitor {
+  public static readonly event = "budget-violation";
+  public static readonly percentiles: BudgetPercentile[] = RollingWindow.percentiles;
+  public static readonly minSamples = 10;
+  private budgets: HashTable<Budget>;
+  private samples: HashTable<RollingWindow> = {};
+
+  constructor(budgets: HashTable<Budget>) {
+    this.budgets = budgets;
+  }
+
+  /**
+   * Returns the budget violations of a metric
+   *
+   * @param {string} metric - the name of a performance mark, measure, or plugin event
+   * @param {Parameters<Listener>} params - the arguments forwarded by MetricIndexer.bust
+   */
+  public evaluate(metric: string, params: Parameters<Listener>) {
+    const violations: BudgetViolation[] = [];
+    if (!(metric in this.budgets)) {
+      return violations;
+    }
+    const value = MetricValue.from(params[0]);
+    if (value === null) {
+      return violations;
+    }
+    const budget = this.budgets[metric];
+    if (budget.max !== undefined && value > budget.max) {
+      violations.push(this.createViolation(metric, "max", value, budget.max));
+    }
+    const percentiles = BudgetMonitor.percentiles.filter((key) => budget[key] !== undefined);
+    if (!percentiles.length) {
+      return violations;
+    }
+    const size = budget.samples ?? 100;
+    const samples = this.addSample(metric, value, size);
+    // Windows smaller than "minSamples" are evaluated once full
+    if (samples.sampleSize < Math.min(budget.minSamples ?? BudgetMonitor.minSamples, size)) {
+      return violations;
+    }
+    percentiles.forEach((key) => {
+      const observed = samples.percentile(parseInt(key.slice(1)));
+      const limit = budget[key] as number;
+      if (observed > limit) {
+        violations.push(this.createViolation(metric, key, observed, limit, samples.sampleSize));
+      }
+    });
+    return violations;
+  }
+
+  /**
+   * Record a value in the rolling window of a metric
+   *
+   * @param {string} metric - the name of a budgeted metric
+   * @param {number} value - the value of the metric's latest occurrence
+   * @param {number} size - the number of values to retain
+   */
+  private addSample(metric: string, value: number, size: number) {
+    if (!(metric in this.samples)) {
+      this.samples[metric] = new RollingWindow(size);
+    }
+    return this.samples[metric].add(value);
+  }
+
+  /**
+   * Describe a metric exceeding one of its budgets
+   *
+   * @param {string} metric - the name of a budgeted metric
+   * @param {"max" | BudgetPercentile} budget - the budget that was exceeded
+   * @param {number} value - the observed value or percentile
+   * @param {number} limit - the budget's limit
+   * @param {number} sampleSize - the number of values the observed value was derived from
+   */
+  private createViolation(
+    metric: string,
+    budget: BudgetViolation["budget"],
+    value: number,
+    limit: number,
+    sampleSize = 1
+  ): BudgetViolation {
+    return { metric, budget, value, limit, overshoot: value - limit, sampleSize };
+  }
+}
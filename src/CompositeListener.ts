@@ -0,0 +1,175 @@
+import type { MetricsQueueInstance } from "./MetricsQueue";
+import type {
+  Listener,
+  HashTable,
+  ErrorHandler,
+  CompositeCondition,
+  CompositeMetrics,
+  CompositeListenerCallback,
+  CompositeListenerConfig,
+} from "./types";
+
+/**
+ * Composite Listener
+ *
+ * Subscribes to several events on the MetricsQueue and invokes a single callback once
+ * all, any, or an ordered sequence of them are reached. Each event is subscribed to using
+ * the MetricsQueue's own MetricIndexers, so a composite listener is nothing more than a
+ * set of keepAlive listeners sharing state.
+ */
+export class CompositeListener {
+  private ID: string;
+  private active = true;
+  private position = 0;
+  private events: string[];
+  private metrics: CompositeMetrics = {};
+  private queue: MetricsQueueInstance;
+  private condition: CompositeCondition;
+  private callback: CompositeListenerCallback;
+  private listenerIDs: HashTable<string> = {};
+  private config: Required<Pick<CompositeListenerConfig, "passive" | "keepAlive">>;
+  private onError: ErrorHandler;
+
+  /**
+   * @param {string} ID - the ID of the composite listener
+   * @param {MetricsQueueInstance} queue - the MetricsQueue to subscribe to
+   * @param {CompositeCondition} condition - an all, any, or sequence condition
+   * @param {Function} callback - receives a map of each event name to the arguments it was emitted with
+   * @param {CompositeListenerConfig} config - the "passive" and "keepAlive" options of the composite listener
+   * @param {ErrorHandler} onError - receives errors thrown by the callback. Defaults to console.error
+   */
+  constructor(
+    ID: string,
+    queue: MetricsQueueInstance,
+    condition: CompositeCondition,
+    callback: CompositeListenerCallback,
+    { passive = true, keepAlive = false }: CompositeListenerConfig = {},
+    onError: ErrorHandler = (error) => console.error(error)
+  ) {
+    this.ID = ID;
+    this.queue = queue;
+    this.onError = onError;
+    this.callback = callback;
+    this.condition = condition;
+    this.config = { passive, keepAlive };
+    this.events = CompositeListener.getEvents(condition);
+  }
+
+  /**
+   * Register a listener on the MetricsQueue for each event in the condition
+   */
+  public subscribe() {
+    for (const event of new Set(this.events)) {
+      this.listenerIDs[event] = this.queue.addEventListener(
+        event,
+        (...args: Parameters<Listener>) => this.onEvent(event, args),
+        { passive: false, keepAlive: true, sticky: false }
+      );
+    }
+  }
+
+  /**
+   * Replay events reached before the composite listener was registered. Events are
+   * replayed in the order they were reached, so sequences complete only when their
+   * events were reached in order
+   *
+   * @param {[string, Parameters<Listener>][]} recorded - each event reached and its arguments, in the order reached
+   */
+  public replay(recorded: [string, Parameters<Listener>][]) {
+    for (const [event, args] of recorded) {
+      this.onEvent(event, args);
+    }
+  }
+
+  /**
+   * Returns the list of events a composite condition is composed of
+   *
+   * @param {CompositeCondition} condition - an all, any, or sequence condition
+   */
+  public static getEvents(condition: CompositeCondition) {
+    if ("all" in condition) {
+      return condition.all;
+    }
+    if ("any" in condition) {
+      return condition.any;
+    }
+    return condition.sequence;
+  }
+
+  /**
+   * Record the arguments of an event and invoke the callback when the condition is met
+   *
+   * @param {string} event - an event belonging to the composite condition
+   * @param {Parameters<Listener>} args - the arguments forwarded by MetricIndexer.bust
+   */
+  private onEvent(event: string, args: Parameters<Listener>) {
+    if (!this.active) {
+      return;
+    }
+    if ("all" in this.condition) {
+      this.metrics[event] = args;
+      if (this.events.every((name) => name in this.metrics)) {
+        this.complete(event);
+      }
+    } else if ("any" in this.condition) {
+      this.metrics[event] = args;
+      this.complete(event);
+    } else if (this.events[this.position] === event) {
+      // Events arriving out of order are ignored
+      this.metrics[event] = args;
+      this.position++;
+      if (this.position === this.events.length) {
+        this.complete(event);
+      }
+    }
+  }
+
+  /**
+   * Invoke the callback with the recorded metrics, then re-arm or remove the listener
+   *
+   * @param {string} event - the event completing the condition
+   */
+  private complete(event: string) {
+    const metrics = this.metrics;
+    this.metrics = {};
+    this.position = 0;
+    if (!this.config.keepAlive) {
+      this.queue.removeCompositeListener(this.ID);
+    }
+    if (this.config.passive) {
+      void Promise.resolve().then(() => this.execute(event, metrics));
+    } else {
+      this.execute(event, metrics);
+    }
+  }
+
+  /**
+   * Invoke the callback in isolation, routing its errors to the error handler
+   * * For internal use only
+   *
+   * @param {string} event - the event completing the condition
+   * @param {CompositeMetrics} metrics - the arguments of each event in the condition
+   */
+  private execute(event: string, metrics: CompositeMetrics) {
+    try {
+      this.callback(metrics);
+    } catch (error) {
+      this.onError(error, {
+        event,
+        listenerID: this.ID,
+        phase: this.config.passive ? "passive-listener" : "listener",
+      });
+    }
+  }
+
+  /**
+   * Remove each of the listeners registered on the MetricsQueue
+   */
+  public remove() {
+    this.active = false;
+    for (const event in this.listenerIDs) {
+      this.queue.removeEventListener(event, this.listenerIDs[event]);
+    }
+    this.listenerIDs = {};
+  }
+}
@@ -0,0 +1,78 @@
+import type { Listener, ListenerCondition, ListenerPredicate } from "./types";
+
+/**
+ * Conditions
+ *
+ * Evaluates the "when" option of a listener against the arguments of a metric. Declarative
+ * conditions are evaluated against the first argument forwarded to listeners - a PerformanceMark,
+ * PerformanceMeasure, or the metric emitted by a plugin.
+ */
+export class Conditions {
+  /**
+   * Returns true if a metric satisfies a listener's condition
+   *
+   * @param {ListenerCondition | ListenerPredicate} condition - the "when" option of a listener
+   * @param {Parameters<Listener>} params - the arguments forwarded by MetricIndexer.bust
+   */
+  public static matches(condition: ListenerCondition | ListenerPredicate, params: Parameters<Listener>) {
+    if (typeof condition === "function") {
+      return !!condition(...params);
+    }
+    const { durationAbove, durationBelow, detailMatches } = condition;
+    const [metric] = params;
+    if (durationAbove !== undefined || durationBelow !== undefined) {
+      const duration = this.getDuration(metric);
+      if (duration === null) {
+        return false;
+      }
+      if (durationAbove !== undefined && duration <= durationAbove) {
+        return false;
+      }
+      if (durationBelow !== undefined && duration >= durationBelow) {
+        return false;
+      }
+    }
+    if (detailMatches !== undefined) {
+      return this.matchesDetail(detailMatches, metric?.detail);
+    }
+    return true;
+  }
+
+  /**
+   * Returns the duration of a metric. Plugins emitting a number as their
+   * metric are treated as durations
+   *
+   * @param {any} metric - the first argument forwarded by MetricIndexer.bust
+   */
+  private static getDuration(metric: any): number | null {
+    if (typeof metric === "number") {
+      return metric;
+    }
+    if (typeof metric?.duration === "number") {
+      return metric.duration;
+    }
+    return null;
+  }
+
+  /**
+   * Returns true if each key in the matcher is strictly equal to the same key on the
+   * metric's detail, or if the matcher function returns true
+   *
+   * @param {ListenerCondition["detailMatches"]} matcher - a partial detail object or predicate
+   * @param {any} detail - the detail of a PerformanceMark, PerformanceMeasure, or plugin metric
+   */
+  private static matchesDetail(matcher: Required<ListenerCondition>["detailMatches"], detail: any) {
+    if (typeof matcher === "function") {
+      return !!matcher(detail);
+    }
+    if (!detail || typeof detail !== "object") {
+      return false;
+    }
+    for (const key in matcher) {
+      if (detail[key] !== matcher[key]) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
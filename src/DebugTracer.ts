@@ -0,0 +1,87 @@
+import type { DebugConfig, TraceEntry } from "./types";
+
+type TraceRecord<Entry = TraceEntry> = Entry extends TraceEntry ? Omit<Entry, "timestamp"> : never;
+
+/**
+ * Debug Tracer
+ *
+ * Records the MetricsQueue's activity while in debug mode - each listener registered,
+ * each metric emitted, and each listener executed along with its execution time and
+ * whether it was consumed. Entries are retained in a bounded buffer that can be read
+ * using MetricsQueue.getTrace, and are optionally logged to the console.
+ */
+export class DebugTracer {
+  private log: boolean;
+  private bufferSize: number;
+  private entries: TraceEntry[] = [];
+
+  constructor({ log = true, bufferSize = 500 }: DebugConfig = {}) {
+    this.log = log;
+    this.bufferSize = Math.max(1, bufferSize);
+  }
+
+  /**
+   * Record an entry in the trace buffer, evicting the oldest entry once the buffer is full
+   *
+   * @param {TraceRecord} record - a "register", "emit" or "listener" entry
+   */
+  public record(record: TraceRecord) {
+    const entry = { ...record, timestamp: Date.now() } as TraceEntry;
+    this.entries.push(entry);
+    if (this.entries.length > this.bufferSize) {
+      this.entries.shift();
+    }
+    if (this.log) {
+      console.debug(`[metrics-queue] ${DebugTracer.describe(entry)}`, entry);
+    }
+  }
+
+  /**
+   * Returns a copy of the trace buffer
+   */
+  public get trace() {
+    return [...this.entries];
+  }
+
+  /**
+   * Empty the trace buffer
+   */
+  public clear() {
+    this.entries = [];
+  }
+
+  /**
+   * Returns the stack trace of the code calling the method that invokes DebugTracer.callSite
+   */
+  public static callSite() {
+    const stack = new Error().stack;
+    if (!stack) {
+      return undefined;
+    }
+    // Omit the error's message, DebugTracer.callSite, and the method invoking it
+    return stack
+      .split("\n")
+      .slice(3)
+      .map((frame) => frame.trim())
+      .join("\n");
+  }
+
+  /**
+   * Summarize a trace entry for logging
+   * * For internal use only
+   *
+   * @param {TraceEntry} entry - a "register", "emit" or "listener" entry
+   */
+  private static describe(entry: TraceEntry) {
+    switch (entry.type) {
+      case "register":
+        return `Registered listener ${entry.listenerID} on "${entry.event}"`;
+      case "emit":
+        return `Emitted "${entry.event}"`;
+      case "listener":
+        return `Executed listener ${entry.listenerID} on "${entry.event}" in ${entry.duration.toFixed(2)}ms${
+          entry.consumed ? " (consumed)" : ""
+        }${entry.threw ? " (threw)" : ""}`;
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import type { MeasureDefinition, PerformanceMeasureParameters } from "./types";
+
+/**
+ * Derived Measure
+ *
+ * Watches the marks flowing through the MetricsQueue for a start mark followed by
+ * an end mark. Once both are reached in order, it returns the arguments of the
+ * performance.measure spanning them. Repeating measures re-arm after each pair, while
+ * the rest complete after their first measure.
+ */
+export class DerivedMeasure {
+  public readonly name: string;
+  public completed = false;
+  private start: string;
+  private end: string;
+  private repeat: boolean;
+  private detail: any;
+  private started = false;
+  private startTime?: number;
+
+  constructor(name: string, { start, end, repeat = false, detail }: MeasureDefinition) {
+    this.name = name;
+    this.start = start;
+    this.end = end;
+    this.repeat = repeat;
+    this.detail = detail;
+  }
+
+  /**
+   * Advance the measure with a mark. A start mark reached again before the end mark
+   * restarts the measure
+   *
+   * @param {string} mark - the name of the mark reached
+   * @param {number | undefined} startTime - the mark's start time, when known
+   * @returns {PerformanceMeasureParameters | null} - the arguments of the performance.measure to create
+   */
+  public onMark(mark: string, startTime?: number): PerformanceMeasureParameters | null {
+    if (this.completed) {
+      return null;
+    }
+    if (mark === this.end && this.started) {
+      const options: PerformanceMeasureOptions = {
+        start: this.startTime ?? this.start,
+        end: startTime ?? this.end,
+      };
+      if (this.detail !== undefined) {
+        options.detail = this.detail;
+      }
+      this.started = false;
+      this.startTime = undefined;
+      this.completed = !this.repeat;
+      return [this.name, options, undefined];
+    }
+    if (mark === this.start) {
+      this.started = true;
+      this.startTime = startTime;
+    }
+    return null;
+  }
+}
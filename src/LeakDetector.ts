@@ -0,0 +1,262 @@
+import type { MetricIndexer } from "./MetricIndexer";
+import type { HashTable, ErrorHandler, LeakDetectionConfig, LeakedListener, ListenerLeak } from "./types";
+
+type Registration = {
+  registeredAt: number;
+  callSite?: string;
+};
+
+/**
+ * Leak Detector
+ *
+ * Watches the listeners registered to a MetricsQueue for signs of a leak:
+ *
+ * "event-limit": an event (or pattern) holding more listeners than its limit
+ * "global-limit": the MetricsQueue holding more listeners than "maxTotalListeners"
+ * "stale": keepAlive listeners that remain registered for longer than "staleAfter"
+ *
+ * Leaks are logged using console.warn, thrown, or forwarded to the "onLeak" callback.
+ * Limit leaks are reported once each time an event crosses its limit, and each stale
+ * listener is reported once.
+ */
+export class LeakDetector {
+  private mode: NonNullable<LeakDetectionConfig["mode"]>;
+  private limits: HashTable<number>;
+  private maxListeners: number;
+  private maxTotalListeners: number;
+  private staleAfter?: number;
+  private onLeak?: (leak: ListenerLeak) => void;
+  private onError: ErrorHandler;
+  private indexers: () => HashTable<MetricIndexer>[];
+  private registrations = new Map<string, Registration>();
+  private reported = new Set<string>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * @param {LeakDetectionConfig} config - the leak detection policy
+   * @param {number} maxListeners - the number of listeners an event can hold unless listed in "limits"
+   * @param {Function} indexers - returns the emitters and pattern listeners of the MetricsQueue
+   * @param {ErrorHandler} onError - receives stale listener leaks in "throw" mode
+   */
+  constructor(
+    {
+      limits = {},
+      maxTotalListeners = Infinity,
+      staleAfter,
+      onLeak,
+      mode = onLeak ? "callback" : "warn",
+    }: LeakDetectionConfig,
+    maxListeners: number,
+    indexers: () => HashTable<MetricIndexer>[],
+    onError: ErrorHandler
+  ) {
+    this.mode = mode;
+    this.limits = limits;
+    this.maxListeners = maxListeners;
+    this.maxTotalListeners = maxTotalListeners;
+    this.staleAfter = staleAfter;
+    this.onLeak = onLeak;
+    this.indexers = indexers;
+    this.onError = onError;
+  }
+
+  /**
+   * Begin sweeping for stale keepAlive listeners when "staleAfter" is configured
+   */
+  public start() {
+    if (this.staleAfter !== undefined && !this.timer) {
+      this.timer = setInterval(() => this.sweep(), this.staleAfter);
+    }
+  }
+
+  /**
+   * Stop sweeping for stale keepAlive listeners
+   */
+  public stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Evaluate the listener limits before a listener is registered. In "throw" mode,
+   * the error prevents the listener from being registered
+   *
+   * @param {string} event - the name of an event or the key of a pattern
+   */
+  public check(event: string) {
+    const indexers = this.indexers();
+    const indexer = indexers.find((table) => event in table)?.[event];
+    const limit = this.limits[event] ?? this.maxListeners;
+    const count = (indexer?.size ?? 0) + 1;
+    if (count > limit) {
+      this.report(`event-limit:${event}`, {
+        type: "event-limit",
+        event,
+        limit,
+        count,
+        listeners: indexer ? this.describe(event, indexer) : [],
+      });
+    } else {
+      this.reported.delete(`event-limit:${event}`);
+    }
+    if (this.maxTotalListeners === Infinity) {
+      return;
+    }
+    let total = 1;
+    indexers.forEach((table) => {
+      for (const key in table) {
+        total += table[key].size;
+      }
+    });
+    if (total > this.maxTotalListeners) {
+      this.report("global-limit", {
+        type: "global-limit",
+        limit: this.maxTotalListeners,
+        count: total,
+        listeners: indexers.flatMap((table) =>
+          Object.keys(table).flatMap((key) => this.describe(key, table[key]))
+        ),
+      });
+    } else {
+      this.reported.delete("global-limit");
+    }
+  }
+
+  /**
+   * Record the registration time and call site of a listener
+   *
+   * @param {string} ID - the ID of a registered listener
+   * @param {string} callSite - the stack trace of the listener's registration
+   */
+  public register(ID: string, callSite?: string) {
+    this.registrations.set(ID, { registeredAt: Date.now(), callSite });
+  }
+
+  /**
+   * Forget a listener once it's removed or consumed
+   *
+   * @param {string} ID - the ID of a registered listener
+   */
+  public unregister(ID: string) {
+    this.registrations.delete(ID);
+    this.reported.delete(`stale:${ID}`);
+  }
+
+  /**
+   * Report keepAlive listeners that have remained registered for longer than "staleAfter"
+   */
+  public sweep() {
+    if (this.staleAfter === undefined) {
+      return;
+    }
+    const now = Date.now();
+    const registered = new Set<string>();
+    this.indexers().forEach((table) => {
+      for (const event in table) {
+        const stale = this.describe(event, table[event]).filter(({ ID, config }) => {
+          registered.add(ID);
+          const registration = this.registrations.get(ID);
+          return (
+            config.keepAlive &&
+            !!registration &&
+            !this.reported.has(`stale:${ID}`) &&
+            now - registration.registeredAt >= (this.staleAfter as number)
+          );
+        });
+        if (stale.length) {
+          stale.forEach(({ ID }) => this.reported.add(`stale:${ID}`));
+          this.report(null, {
+            type: "stale",
+            event,
+            limit: this.staleAfter as number,
+            count: stale.length,
+            listeners: stale,
+          });
+        }
+      }
+    });
+    // Forget listeners that have since been removed
+    this.registrations.forEach((_, ID) => {
+      if (!registered.has(ID)) {
+        this.unregister(ID);
+      }
+    });
+  }
+
+  /**
+   * Returns the message describing a leak
+   *
+   * @param {ListenerLeak} leak - an "event-limit", "global-limit" or "stale" leak
+   */
+  public static describe({ type, event, limit, count, listeners }: ListenerLeak) {
+    const message =
+      type === "stale"
+        ? `${count} keepAlive listener(s) registered to "${event}" have not been removed after ${limit}ms.`
+        : `There are currently ${count} listeners registered to ${
+            type === "event-limit" ? `"${event}"` : "the MetricsQueue"
+          }, exceeding the limit of ${limit}. It may be worth adding a new marker or measure to avoid polluting ${
+            type === "event-limit" ? "this event's" : "the"
+          } queue.`;
+    const callSites = listeners
+      .filter(({ callSite }) => callSite)
+      .map(({ ID, event, callSite }) => `  ${ID} (${event}) ${(callSite as string).split("\n")[0].trim()}`);
+    return callSites.length ? `${message}\n\nListeners registered:\n${callSites.join("\n")}` : message;
+  }
+
+  /**
+   * Clear the registrations and reported leaks
+   */
+  public destroy() {
+    this.stop();
+    this.registrations.clear();
+    this.reported.clear();
+  }
+
+  /**
+   * Report a leak using the configured mode. Limit leaks already reported are ignored,
+   * except in "throw" mode
+   * * For internal use only
+   *
+   * @param {string | null} key - identifies a limit leak until it is resolved
+   * @param {ListenerLeak} leak - the leak detected
+   */
+  private report(key: string | null, leak: ListenerLeak) {
+    if (this.mode === "throw") {
+      const error = new Error(LeakDetector.describe(leak));
+      if (leak.type !== "stale") {
+        throw error;
+      }
+      return this.onError(error, { event: leak.event as string, phase: "leak-detection" });
+    }
+    if (key) {
+      if (this.reported.has(key)) {
+        return;
+      }
+      this.reported.add(key);
+    }
+    if (this.mode === "callback" && typeof this.onLeak === "function") {
+      return this.onLeak(leak);
+    }
+    console.warn(`[metrics-queue] ${LeakDetector.describe(leak)}`, leak);
+  }
+
+  /**
+   * Returns the listeners of an indexer along with their call sites
+   * * For internal use only
+   *
+   * @param {string} event - the name of an event or the key of a pattern
+   * @param {MetricIndexer} indexer - the MetricIndexer holding the event's listeners
+   */
+  private describe(event: string, indexer: MetricIndexer): LeakedListener[] {
+    return indexer.snapshot().map((snapshot) => {
+      const listener: LeakedListener = { ...snapshot, event };
+      const callSite = snapshot.callSite ?? this.registrations.get(snapshot.ID)?.callSite;
+      if (callSite) {
+        listener.callSite = callSite;
+      }
+      return listener;
+    });
+  }
+}
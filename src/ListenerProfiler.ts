@@ -0,0 +1,88 @@
+import type { ListenerExecution, ListenerTimingConfig, SlowListener } from "./types";
+
+/**
+ * Listener Profiler
+ *
+ * Evaluates the execution time of each listener invoked by the MetricsQueue against
+ * a budget. Listeners exceeding the budget are reported as "slow-listener" events and
+ * can optionally be logged to the console. While a listener's "slow-listener" event is
+ * being dispatched, further violations by the same listener are ignored so that slow
+ * listeners of "slow-listener" (or of a matching pattern) cannot emit indefinitely.
+ */
+export class ListenerProfiler {
+  public static readonly event = "slow-listener";
+  public static readonly prefix = "metrics-queue:listener:";
+  public readonly budget: number;
+  public readonly warn: boolean;
+  public readonly measure: boolean;
+  private reporting = new Set<string>();
+
+  constructor({ budget = 50, warn = true, measure = false }: ListenerTimingConfig = {}) {
+    this.budget = budget;
+    this.warn = warn;
+    this.measure = measure;
+  }
+
+  /**
+   * Returns a "slow-listener" violation when a listener's execution exceeds the budget
+   *
+   * @param {ListenerExecution} execution - the event, listener ID and execution time of a listener
+   * @returns {SlowListener | null}
+   */
+  public evaluate({ event, listenerID, duration }: ListenerExecution): SlowListener | null {
+    if (duration <= this.budget || this.reporting.has(listenerID)) {
+      return null;
+    }
+    return { event, listenerID, duration, budget: this.budget };
+  }
+
+  /**
+   * Dispatch a "slow-listener" violation, ignoring the listener's further violations
+   * until the dispatch settles
+   *
+   * @param {SlowListener} slowListener - a violation returned from ListenerProfiler.evaluate
+   * @param {Function} emit - dispatches the violation to listeners of "slow-listener"
+   */
+  public async report(slowListener: SlowListener, emit: (slowListener: SlowListener) => Promise<void>) {
+    const { listenerID } = slowListener;
+    if (this.warn) {
+      console.warn(ListenerProfiler.describe(slowListener));
+    }
+    this.reporting.add(listenerID);
+    try {
+      await emit(slowListener);
+    } finally {
+      this.reporting.delete(listenerID);
+    }
+  }
+
+  /**
+   * Returns the name of the performance.measure recording a listener's execution
+   *
+   * @param {ListenerExecution} execution - the event and listener ID of a listener
+   */
+  public static measureName({ event, listenerID }: Pick<ListenerExecution, "event" | "listenerID">) {
+    return `${this.prefix}${event}:${listenerID}`;
+  }
+
+  /**
+   * Returns true if a performance entry was recorded by the ListenerProfiler
+   *
+   * @param {string} name - the name of a performance entry
+   */
+  public static isListenerMeasure(name: string) {
+    return name.startsWith(this.prefix);
+  }
+
+  /**
+   * Returns a human readable description of a "slow-listener" violation
+   * * For internal use only
+   *
+   * @param {SlowListener} slowListener - a violation returned from ListenerProfiler.evaluate
+   */
+  private static describe({ event, listenerID, duration, budget }: SlowListener) {
+    return `[metrics-queue] Listener "${listenerID}" registered to "${event}" took ${duration.toFixed(
+      2
+    )}ms, exceeding its budget of ${budget}ms`;
+  }
+}
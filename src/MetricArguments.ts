@@ -0,0 +1,31 @@
+/**
+ * Metric Arguments
+ *
+ * Converts the arguments forwarded to listeners into plain JSON values. Serialized
+ * arguments can be posted between contexts by a MetricsBridge or stored in sessions
+ * recorded by a SessionRecorder.
+ */
+export class MetricArguments {
+  /**
+   * Returns a copy of a listener's arguments that can be serialized. Performance entries
+   * are converted to plain objects, and values that cannot be serialized are dropped
+   *
+   * @param {any[]} args - the arguments forwarded to event listeners
+   */
+  public static serialize(args: any[]) {
+    return args.map((arg) => {
+      if (arg === undefined || arg === null || typeof arg !== "object") {
+        return typeof arg === "function" || typeof arg === "symbol" ? undefined : arg;
+      }
+      if (typeof arg.entryType === "string") {
+        const { name, entryType, startTime, duration, detail } = arg;
+        return JSON.parse(JSON.stringify({ name, entryType, startTime, duration, detail }));
+      }
+      try {
+        return JSON.parse(JSON.stringify(arg));
+      } catch {
+        return undefined;
+      }
+    });
+  }
+}
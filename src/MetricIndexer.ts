@@ -1,8 +1,17 @@
+import { Conditions } from "./Conditions";
+import { Scheduler } from "./Scheduler";
 import { AutoIncrementingID } from "./AutoIncrementingID";
 import type {
   Listener,
   MetricEvent,
+  ErrorHandler,
+  IDGenerator,
+  MetricIndexerOptions,
   ListenerConfig,
+  ListenerSnapshot,
+  ListenerExecution,
+  ListenerState,
+  IndexedListenerConfig,
   BustPluginMetric,
   BustPerformanceMark,
   BustPerformanceMeasure,
@@ -18,32 +27,84 @@ import type {
  */
 
 export class MetricIndexer {
+  private event: string;
+  private IDs: IDGenerator;
+  private onError: ErrorHandler;
+  private onExecute?: (execution: ListenerExecution) => void;
+  private onRemove?: (ID: string) => void;
+  private onEmpty?: (event: string) => void;
   private queue = new Map<string, MetricEvent>();
-  private silenceWarnings = false;
+
+  /**
+   * @param {string} event - the name of the event the MetricIndexer is registered to
+   * @param {MetricIndexerOptions} options - Accepts:
+   *    "onError": receives errors thrown by listeners. Defaults to console.error
+   *    "onExecute": receives the execution time of each listener and whether it was consumed
+   *    "onRemove": receives the ID of each listener removed or consumed
+   *    "onEmpty": receives the name of the event once a debounced or batched listener empties the queue
+   *    "IDs": the source of listener IDs. Defaults to the global AutoIncrementingID
+   */
+  constructor(
+    event = "",
+    {
+      onError = (error) => console.error(error),
+      onExecute,
+      onRemove,
+      onEmpty,
+      IDs = AutoIncrementingID,
+    }: MetricIndexerOptions = {}
+  ) {
+    this.IDs = IDs;
+    this.event = event;
+    this.onError = onError;
+    this.onExecute = onExecute;
+    this.onRemove = onRemove;
+    this.onEmpty = onEmpty;
+  }
 
   /**
    * Add and index an event listener callback
    *
    * @param {Function} listener - a callback
+   * @param {ListenerConfig} config - the listener's config
+   * @param {string} callSite - an optional stack trace of the listener's registration
    * @returns {string} ID - an identifier that can be used to remove the listener
    */
-  public add(listener: Listener, config: ListenerConfig = { keepAlive: false, passive: true }) {
-    const nextID = AutoIncrementingID.nextID.toString();
-    this.queue.set(nextID, {
+  public add(
+    listener: Listener,
+    config: ListenerConfig = { keepAlive: false, passive: true },
+    callSite?: string
+  ) {
+    const nextID = this.IDs.nextID;
+    const metricEvent: MetricEvent = {
       listener,
       config: Object.assign({ keepAlive: false, passive: true }, config),
-    });
+    };
+    if (MetricIndexer.isRateLimited(metricEvent.config)) {
+      metricEvent.state = { occurrences: 0, executions: 0 };
+    }
+    if (callSite) {
+      metricEvent.callSite = callSite;
+    }
+    this.queue.set(nextID, metricEvent);
     return nextID;
   }
 
   /**
-   * Remove an event listener callback by id
+   * Remove an event listener callback by id, discarding its pending debounced or batched metrics
    *
    * @param {Function} id - a callback index returned from MetricIndexer.add
    * @returns {boolean}
    */
   public remove(id: string) {
-    return this.queue.delete(id);
+    const metricEvent = this.queue.get(id);
+    if (!metricEvent) {
+      return false;
+    }
+    MetricIndexer.clearTimer(metricEvent);
+    this.queue.delete(id);
+    this.onRemove?.(id);
+    return true;
   }
 
   /**
@@ -57,7 +118,7 @@ export class MetricIndexer {
   }
 
   /**
-   * Empty the queue, execute all event listener callbacks
+   * Empty the queue, execute all event listener callbacks whose conditions are met
    *
    * @param {
    *   BustPluginMetric |
@@ -67,22 +128,14 @@ export class MetricIndexer {
    */
   public async bust(...params: BustPluginMetric | BustPerformanceMark | BustPerformanceMeasure) {
     const promises: Promise<any>[] = [];
-    this.queue.forEach(({ listener, config: { passive, keepAlive } }, id) => {
-      if (passive) {
-        promises.push(
-          (async () => {
-            await Promise.resolve();
-            listener(...params);
-            if (!keepAlive) {
-              this.queue.delete(id);
-            }
-          })()
-        );
-      } else {
-        listener(...params);
-        if (!keepAlive) {
-          this.queue.delete(id);
-        }
+    this.queue.forEach((metricEvent, id) => {
+      // Listeners whose condition isn't met remain registered
+      if (!this.meetsCondition(id, metricEvent, params)) {
+        return;
+      }
+      const promise = this.deliver(id, metricEvent, params);
+      if (promise) {
+        promises.push(promise);
       }
     });
     if (promises.length) {
@@ -91,26 +144,292 @@ export class MetricIndexer {
   }
 
   /**
-   * Get the size of the queue
+   * Execute a single event listener callback with the arguments of a metric
+   * that was reached before the listener was registered
+   *
+   * @param {string} id - an ID returned from MetricIndexer.add
+   * @param {
+   *   BustPluginMetric |
+   *   BustPerformanceMark |
+   *   BustPerformanceMeasure
+   * } arguments - The arguments MetricIndexer.bust would have forwarded to the listener
    */
-  get size() {
-    return this.queue.size;
+  public async replay(
+    id: string,
+    ...params: BustPluginMetric | BustPerformanceMark | BustPerformanceMeasure
+  ) {
+    const metricEvent = this.queue.get(id);
+    if (!metricEvent || !this.meetsCondition(id, metricEvent, params)) {
+      return;
+    }
+    await this.deliver(id, metricEvent, params);
+  }
+
+  /**
+   * Apply a listener's "skip", "batch", "debounce" and "throttle" options to a metric meeting its
+   * condition. Metrics that aren't skipped, batched, debounced or throttled are dispatched
+   * * For internal use only
+   *
+   * @param {string} id - an ID returned from MetricIndexer.add
+   * @param {MetricEvent} metricEvent - the listener, its config and its state
+   * @param {Parameters<Listener>} params - the arguments forwarded to the listener
+   */
+  private deliver(id: string, metricEvent: MetricEvent, params: Parameters<Listener>) {
+    const { config, state } = metricEvent;
+    if (!state) {
+      return this.dispatch(id, metricEvent, params);
+    }
+    state.occurrences++;
+    if (config.skip && state.occurrences <= config.skip) {
+      return;
+    }
+    if (config.batch) {
+      return this.enqueue(id, metricEvent, state, params);
+    }
+    if (typeof config.debounce === "number") {
+      MetricIndexer.clearTimer(metricEvent);
+      state.timer = setTimeout(() => {
+        state.timer = undefined;
+        void this.settle(this.dispatch(id, metricEvent, params));
+      }, config.debounce);
+      return;
+    }
+    if (typeof config.throttle === "number") {
+      const now = Date.now();
+      if (state.lastExecution !== undefined && now - state.lastExecution < config.throttle) {
+        return;
+      }
+      state.lastExecution = now;
+    }
+    return this.dispatch(id, metricEvent, params);
+  }
+
+  /**
+   * Add a metric to a listener's batch, dispatching the batch once it's full
+   * or its oldest metric has waited "maxWait" milliseconds
+   * * For internal use only
+   *
+   * @param {string} id - an ID returned from MetricIndexer.add
+   * @param {MetricEvent} metricEvent - the listener and its config
+   * @param {ListenerState} state - the listener's occurrences, executions and pending batch
+   * @param {Parameters<Listener>} params - the arguments forwarded to the listener
+   */
+  private enqueue(id: string, metricEvent: MetricEvent, state: ListenerState, params: Parameters<Listener>) {
+    const { size = Infinity, maxWait } = metricEvent.config.batch ?? {};
+    if (!state.batch) {
+      state.batch = [];
+    }
+    state.batch.push(params);
+    if (state.batch.length >= size) {
+      return this.flushBatch(id, metricEvent, state);
+    }
+    if (typeof maxWait === "number" && state.timer === undefined) {
+      state.timer = setTimeout(() => {
+        state.timer = undefined;
+        void this.settle(this.flushBatch(id, metricEvent, state));
+      }, maxWait);
+    }
+  }
+
+  /**
+   * Dispatch a listener's batch as an array of the arguments of each metric in the batch
+   * * For internal use only
+   *
+   * @param {string} id - an ID returned from MetricIndexer.add
+   * @param {MetricEvent} metricEvent - the listener and its config
+   * @param {ListenerState} state - the listener's occurrences, executions and pending batch
+   */
+  private flushBatch(id: string, metricEvent: MetricEvent, state: ListenerState) {
+    const batch = state.batch ?? [];
+    MetricIndexer.clearTimer(metricEvent);
+    state.batch = [];
+    return this.dispatch(id, metricEvent, [batch] as unknown as Parameters<Listener>);
+  }
+
+  /**
+   * Notify the "onEmpty" handler once an execution outside of MetricIndexer.bust empties the queue
+   * * For internal use only
+   *
+   * @param {Promise<void> | void} execution - the result of MetricIndexer.dispatch
+   */
+  private async settle(execution: Promise<void> | void) {
+    await execution;
+    if (!this.queue.size) {
+      this.onEmpty?.(this.event);
+    }
+  }
+
+  /**
+   * Execute a listener synchronously or using its schedule
+   * * For internal use only
+   *
+   * @param {string} id - an ID returned from MetricIndexer.add
+   * @param {MetricEvent} metricEvent - the listener, its config and its state
+   * @param {Parameters<Listener>} params - the arguments forwarded to the listener
+   */
+  private dispatch(id: string, metricEvent: MetricEvent, params: Parameters<Listener>) {
+    const schedule = MetricIndexer.schedule(metricEvent.config);
+    if (schedule === "sync") {
+      this.execute(id, metricEvent, params);
+      return;
+    }
+    return Scheduler.run(schedule, () => {
+      // The listener may have been busted or removed in the meantime
+      if (this.queue.has(id)) {
+        this.execute(id, metricEvent, params);
+      }
+    });
   }
 
   /**
-   * Throw an error when emitters get clogged at runtime
+   * Returns true if a listener has no condition or its condition is met. Conditions
+   * that throw are reported to the error handler and treated as unmet
    *
-   * @param {string} event - The name of an event indexed on MetricsQueue.emitter
+   * @param {string} id - an ID returned from MetricIndexer.add
+   * @param {MetricEvent} metricEvent - the listener and its config
+   * @param {Parameters<Listener>} params - the arguments forwarded to the listener
    */
-  public chubbinessCheck(event: string) {
-    if (!this.silenceWarnings && this.queue.size > 19) {
-      throw new Error(`
-        There are currently more than 20 listeners registered to "${event}".
-        It may be worth adding a new marker or measure to avoid polluting this event's queue.
+  private meetsCondition(id: string, { config }: MetricEvent, params: Parameters<Listener>) {
+    const { when } = config;
+    if (!when) {
+      return true;
+    }
+    try {
+      return Conditions.matches(when, params);
+    } catch (error) {
+      this.onError(error, {
+        event: this.eventOf?.(params) ?? this.event,
+        listenerID: id,
+        phase: MetricIndexer.phase(config),
+      });
+      return false;
+    }
+  }
 
-        To silence this error, set MetricIndexer.silenceWarnings to false.
-      `);
+  /**
+   * Invoke a listener in isolation, routing its errors to the error handler.
+   * Listeners that aren't kept alive, or have run the number of "times" they're
+   * limited to, are removed whether or not they throw. When an "onExecute" handler
+   * is provided, it receives the listener's execution time
+   *
+   * @param {string} id - an ID returned from MetricIndexer.add
+   * @param {MetricEvent} metricEvent - the listener, its config and its state
+   * @param {Parameters<Listener>} params - the arguments forwarded to the listener
+   */
+  private execute(id: string, metricEvent: MetricEvent, params: Parameters<Listener>) {
+    const { listener, config, state } = metricEvent;
+    if (state) {
+      state.executions++;
     }
+    const consumed =
+      state && typeof config.times === "number" ? state.executions >= config.times : !config.keepAlive;
+    const start = this.onExecute ? MetricIndexer.now() : 0;
+    let threw = false;
+    try {
+      listener(...params);
+    } catch (error) {
+      threw = true;
+      this.onError(error, {
+        event: this.eventOf?.(params) ?? this.event,
+        listenerID: id,
+        phase: MetricIndexer.phase(config),
+      });
+    } finally {
+      if (consumed) {
+        this.remove(id);
+      }
+      this.onExecute?.({
+        event: this.event,
+        listenerID: id,
+        duration: MetricIndexer.now() - start,
+        consumed,
+        threw,
+      });
+    }
+  }
+
+  /**
+   * Returns the name of the event a listener is invoked with, reported in the context of its errors.
+   * Indexers that leave it undefined, or return undefined, report their own event
+   *
+   * @param {Parameters<Listener>} params - the arguments forwarded to the listener
+   */
+  protected eventOf?(params: Parameters<Listener>): string | undefined;
+
+  /**
+   * Returns a listener's scheduling strategy. Listeners without a "schedule" run
+   * in a microtask when passive and synchronously otherwise
+   *
+   * @param {IndexedListenerConfig} config - the listener's config
+   */
+  public static schedule({ schedule, passive }: IndexedListenerConfig) {
+    if (schedule) {
+      return Scheduler.toOptions(schedule).strategy === "sync" ? "sync" : schedule;
+    }
+    return passive ? "microtask" : "sync";
+  }
+
+  /**
+   * Returns the error phase of a listener based on whether its execution is deferred
+   * * For internal use only
+   *
+   * @param {IndexedListenerConfig} config - the listener's config
+   */
+  private static phase(config: IndexedListenerConfig) {
+    return this.schedule(config) === "sync" ? "listener" : "passive-listener";
+  }
+
+  /**
+   * Returns true if a listener uses the "times", "skip", "throttle", "debounce" or "batch" options
+   * * For internal use only
+   *
+   * @param {IndexedListenerConfig} config - the listener's config
+   */
+  private static isRateLimited({ times, skip, throttle, debounce, batch }: IndexedListenerConfig) {
+    return [times, skip, throttle, debounce, batch].some((option) => option !== undefined);
+  }
+
+  /**
+   * Cancel a listener's pending debounce or batch
+   * * For internal use only
+   *
+   * @param {MetricEvent} metricEvent - the listener, its config and its state
+   */
+  private static clearTimer({ state }: MetricEvent) {
+    if (state?.timer !== undefined) {
+      clearTimeout(state.timer);
+      state.timer = undefined;
+    }
+  }
+
+  /**
+   * Returns a high resolution timestamp when available
+   * * For internal use only
+   */
+  private static now() {
+    return typeof performance !== "undefined" && typeof performance.now === "function"
+      ? performance.now()
+      : Date.now();
+  }
+
+  /**
+   * Returns the ID, config and registration call site of each listener in the queue
+   */
+  public snapshot(): ListenerSnapshot[] {
+    return Array.from(this.queue, ([ID, { config, callSite }]) => {
+      const snapshot: ListenerSnapshot = { ID, config: { ...config } };
+      if (callSite) {
+        snapshot.callSite = callSite;
+      }
+      return snapshot;
+    });
+  }
+
+  /**
+   * Get the size of the queue
+   */
+  get size() {
+    return this.queue.size;
   }
 
   /**
@@ -118,7 +437,7 @@ export class MetricIndexer {
    *  * For use during testing only
    */
   public destroy() {
+    this.queue.forEach((metricEvent) => MetricIndexer.clearTimer(metricEvent));
     this.queue = new Map<string, MetricEvent>();
-    this.silenceWarnings = false;
   }
 }
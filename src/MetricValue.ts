@@ -0,0 +1,31 @@
+/**
+ * Metric Value
+ *
+ * Derives a single numeric value from the first argument forwarded to listeners. Performance
+ * marks resolve to their start time, measures to their duration, and plugin metrics to
+ * themselves when numeric, or their "duration", "value" or "startTime" properties.
+ */
+export class MetricValue {
+  /**
+   * Returns the numeric value of a metric or null if one cannot be derived
+   *
+   * @param {any} metric - a PerformanceMark, PerformanceMeasure, or plugin metric
+   */
+  public static from(metric: any): number | null {
+    if (typeof metric === "number") {
+      return metric;
+    }
+    if (!metric || typeof metric !== "object") {
+      return null;
+    }
+    if (metric.entryType === "mark" && typeof metric.startTime === "number") {
+      return metric.startTime;
+    }
+    for (const key of ["duration", "value", "startTime"]) {
+      if (typeof metric[key] === "number") {
+        return metric[key] as number;
+      }
+    }
+    return null;
+  }
+}
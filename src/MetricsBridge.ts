@@ -0,0 +1,270 @@
+import { PatternIndexer } from "./PatternIndexer";
+import { MetricArguments } from "./MetricArguments";
+import type { MetricsQueueInstance } from "./MetricsQueue";
+import type { BridgeConfig, BridgeEndpoint, BridgeMessage } from "./types";
+
+/**
+ * Metrics Bridge
+ *
+ * Connects MetricsQueues living in different contexts - a Web Worker and the main thread,
+ * an iframe and its parent, or tabs sharing a BroadcastChannel. Selected marks, measures
+ * and plugin events are serialized and posted to the endpoint. Messages received from the
+ * endpoint are re-emitted on the local MetricsQueue as plugin events, tagged with the
+ * "source" of the context they came from and with their start times corrected for the
+ * difference between each context's time origin.
+ *
+ * Metrics received from a bridge are never forwarded - whatever their payload - so two
+ * contexts may forward the same events to one another without echoing them back and forth.
+ */
+export class MetricsBridge {
+  public static readonly type = "metrics-queue:bridge";
+  private queue: MetricsQueueInstance<any, any>;
+  private endpoint: BridgeEndpoint;
+  private source: string;
+  private forward: (string | RegExp)[];
+  private receive: boolean | (string | RegExp)[];
+  private prefix: string;
+  private targetOrigin?: string;
+  private origins?: string[];
+  private timeOrigin?: number;
+  private onError: (error: unknown) => void;
+  private listenerIDs: [event: string | RegExp, ID: string][] = [];
+  private echoes = new Map<number, any[][]>();
+  private connected = false;
+
+  /**
+   * @param {MetricsQueueInstance} queue - the MetricsQueue to forward metrics from and re-emit metrics on
+   * @param {BridgeEndpoint} endpoint - a Worker, MessagePort, BroadcastChannel, or Window
+   * @param {BridgeConfig} config - Accepts:
+   *    "source": the name of this context, tagged on the metrics it forwards. Defaults to "bridge"
+   *    "forward": the events and patterns to forward to the endpoint. Defaults to none
+   *    "receive": whether to re-emit metrics received from the endpoint, or the events and patterns
+   *               to re-emit. Defaults to true
+   *    "prefix": prepended to the names of the metrics re-emitted. Defaults to none
+   *    "targetOrigin": the origin of the Window receiving the metrics when posting to a Window
+   *    "origins": the origins of the Windows metrics are accepted from. Defaults to the "targetOrigin".
+   *               Window endpoints require "origins" or a "targetOrigin" other than "*"
+   *    "timeOrigin": the time origin of this context. Defaults to that of the MetricsQueue's Performance API
+   *    "onError": receives errors thrown while posting metrics. Defaults to console.error
+   */
+  constructor(
+    queue: MetricsQueueInstance<any, any>,
+    endpoint: BridgeEndpoint,
+    {
+      source = "bridge",
+      forward = [],
+      receive = true,
+      prefix = "",
+      targetOrigin,
+      origins,
+      timeOrigin,
+      onError = (error) => console.error(error),
+    }: BridgeConfig = {}
+  ) {
+    this.queue = queue;
+    this.endpoint = endpoint;
+    this.source = source;
+    this.forward = forward;
+    this.receive = receive;
+    this.prefix = prefix;
+    this.targetOrigin = targetOrigin;
+    this.origins = origins;
+    if (MetricsBridge.isWindow(endpoint)) {
+      if (!origins && (!targetOrigin || targetOrigin === "*")) {
+        throw new Error(
+          'Bridging to a Window requires the "origins" to accept metrics from or a "targetOrigin" other than "*" - otherwise any origin could emit metrics on your MetricsQueue'
+        );
+      }
+      this.origins = origins ?? [targetOrigin as string];
+    }
+    this.timeOrigin = timeOrigin;
+    this.onError = onError;
+  }
+
+  /**
+   * Begin forwarding metrics to the endpoint and receiving metrics from it
+   */
+  public connect() {
+    if (this.connected) {
+      return;
+    }
+    this.connected = true;
+    this.forward.forEach((event, index) => {
+      const ID = PatternIndexer.isPattern(event)
+        ? this.queue.addEventListener(event, (name, ...args) => this.post(index, name, args), {
+            keepAlive: true,
+          })
+        : this.queue.addEventListener(
+            event as string,
+            (...args: any[]) => this.post(index, event as string, args),
+            { keepAlive: true }
+          );
+      this.listenerIDs.push([event, ID]);
+    });
+    if (this.receive) {
+      this.endpoint.addEventListener?.("message", this.onMessage);
+      this.endpoint.start?.();
+    }
+  }
+
+  /**
+   * Stop forwarding and receiving metrics
+   */
+  public disconnect() {
+    if (!this.connected) {
+      return;
+    }
+    this.connected = false;
+    this.listenerIDs.forEach(([event, ID]) => this.queue.removeEventListener(event, ID));
+    this.listenerIDs = [];
+    this.echoes.clear();
+    this.endpoint.removeEventListener?.("message", this.onMessage);
+  }
+
+  /**
+   * Returns true if a message was posted by a MetricsBridge
+   *
+   * @param {unknown} data - the data of a message event
+   */
+  public static isMessage(data: unknown): data is BridgeMessage {
+    return (
+      !!data &&
+      typeof data === "object" &&
+      (data as BridgeMessage).type === MetricsBridge.type &&
+      typeof (data as BridgeMessage).event === "string" &&
+      Array.isArray((data as BridgeMessage).args)
+    );
+  }
+
+  /**
+   * Returns true if an endpoint is a Window. Cross-origin Windows are detected as well
+   *
+   * @param {BridgeEndpoint} endpoint - a Worker, MessagePort, BroadcastChannel, or Window
+   */
+  public static isWindow(endpoint: BridgeEndpoint) {
+    return (endpoint as { window?: unknown }).window === endpoint;
+  }
+
+  /**
+   * The time origin of this context
+   * * For internal use only
+   */
+  private get origin() {
+    return this.timeOrigin ?? this.queue.timeOrigin;
+  }
+
+  /**
+   * Post a metric to the endpoint. Metrics re-emitted by this bridge are ignored
+   * * For internal use only
+   *
+   * @param {number} index - the index of the forwarded event or pattern the metric matched
+   * @param {string} event - the name of the metric
+   * @param {any[]} args - the arguments forwarded to event listeners
+   */
+  private post(index: number, event: string, args: any[]) {
+    if (this.isEcho(index, args)) {
+      return;
+    }
+    const message: BridgeMessage = {
+      type: MetricsBridge.type,
+      source: this.source,
+      event,
+      args: MetricArguments.serialize(args),
+      timeOrigin: this.origin,
+    };
+    try {
+      if (this.targetOrigin) {
+        this.endpoint.postMessage(message, this.targetOrigin);
+      } else {
+        this.endpoint.postMessage(message);
+      }
+    } catch (error) {
+      this.onError(error);
+    }
+  }
+
+  /**
+   * Returns true, and stops expecting it, if a forwarding listener was invoked with a metric
+   * this bridge re-emitted. Re-emitted arguments are compared by reference, so scalar payloads
+   * are recognized along with objects
+   * * For internal use only
+   *
+   * @param {number} index - the index of the forwarded event or pattern the metric matched
+   * @param {any[]} args - the arguments forwarded to event listeners
+   */
+  private isEcho(index: number, args: any[]) {
+    const echoes = this.echoes.get(index);
+    const echo = echoes?.findIndex(
+      (echoed) => echoed.length === args.length && echoed.every((arg, i) => arg === args[i])
+    );
+    if (!echoes || echo === undefined || echo === -1) {
+      return false;
+    }
+    echoes.splice(echo, 1);
+    return true;
+  }
+
+  /**
+   * Re-emit metrics received from the endpoint on the MetricsQueue
+   * * For internal use only
+   *
+   * @param {MessageEvent} event - a message posted to the endpoint
+   */
+  private onMessage = ({ data, origin }: MessageEvent) => {
+    if (!MetricsBridge.isMessage(data)) {
+      return;
+    }
+    if (this.origins && !this.origins.includes(origin)) {
+      return;
+    }
+    if (
+      Array.isArray(this.receive) &&
+      !this.receive.some((event) => MetricsBridge.matches(event, data.event))
+    ) {
+      return;
+    }
+    const offset = data.timeOrigin - this.origin;
+    const args = data.args.map((arg, index) => {
+      if (!arg || typeof arg !== "object" || Array.isArray(arg)) {
+        return arg;
+      }
+      const corrected = { ...arg };
+      if (typeof arg.startTime === "number") {
+        corrected.startTime = arg.startTime + offset;
+      }
+      // Tag the metric with the context it came from
+      if (index === 0) {
+        corrected.source = data.source;
+        corrected.bridged = true;
+      }
+      return corrected;
+    });
+    const event = `${this.prefix}${data.event}`;
+    // Expect each forwarding listener matching the event to be invoked with the re-emitted arguments
+    this.forward.forEach((forwarded, index) => {
+      if (MetricsBridge.matches(forwarded, event)) {
+        const echoes = this.echoes.get(index) ?? [];
+        echoes.push(args);
+        this.echoes.set(index, echoes);
+      }
+    });
+    void this.queue.onPluginEvent(event, ...args);
+  };
+
+  /**
+   * Returns true if an event name matches an event or pattern
+   * * For internal use only
+   *
+   * @param {string | RegExp} eventOrPattern - an event name or pattern
+   * @param {string} event - the name of the event received
+   */
+  private static matches(eventOrPattern: string | RegExp, event: string) {
+    if (!PatternIndexer.isPattern(eventOrPattern)) {
+      return eventOrPattern === event;
+    }
+    const matcher =
+      typeof eventOrPattern === "string" ? PatternIndexer.toRegExp(eventOrPattern) : eventOrPattern;
+    matcher.lastIndex = 0;
+    return matcher.test(event);
+  }
+}
@@ -1,15 +1,63 @@
+import { WebVitals } from "./WebVitals";
 import { MetricIndexer } from "./MetricIndexer";
+import { PatternIndexer } from "./PatternIndexer";
+import { BudgetMonitor } from "./BudgetMonitor";
+import { MetricValue } from "./MetricValue";
+import { Reporter } from "./Reporter";
+import { RollingWindow } from "./RollingWindow";
+import { DebugTracer } from "./DebugTracer";
+import { ListenerProfiler } from "./ListenerProfiler";
+import { TierClassifier } from "./TierClassifier";
+import { LeakDetector } from "./LeakDetector";
+import { Scheduler } from "./Scheduler";
+import { CompositeListener } from "./CompositeListener";
+import { DerivedMeasure } from "./DerivedMeasure";
+import { SessionRecorder } from "./SessionRecorder";
+import { AutoIncrementingID } from "./AutoIncrementingID";
+import { PerformanceEntries } from "./PerformanceEntries";
+import { PerformanceBackends } from "./PerformanceBackends";
+import { PerformanceEntryObserver } from "./PerformanceEntryObserver";
 import type {
   Listener,
   HashTable,
   InitConfig,
   PluginOptions,
+  ErrorContext,
+  ErrorHandler,
   ListenerConfig,
+  WaitForOptions,
+  BustPluginMetric,
   ListenerArguments,
+  CompositeCondition,
+  CompositeListenerCallback,
+  CompositeListenerConfig,
   PerformanceMarkMethod,
   PerformanceMeasureMethod,
   PerformanceMarkParameters,
   PerformanceMeasureParameters,
+  IDGenerator,
+  PerformanceBackend,
+  EventPattern,
+  PatternListener,
+  MetricStats,
+  EventMap,
+  EventName,
+  EventListener,
+  BatchListener,
+  BatchedListenerConfig,
+  EventArguments,
+  DefaultEventMap,
+  PluginEmitter,
+  MetricIndexerOptions,
+  Inspection,
+  TraceEntry,
+  ListenerExecution,
+  MeasureDefinition,
+  PerformanceTier,
+  RecordedEmission,
+  RecordedSession,
+  RecordingConfig,
+  ReplayOptions,
 } from "./types";
 
 /**
@@ -22,14 +70,48 @@ import type {
  * render, or create priority task execution based on your products real performance
  * metrics.
  */
-export class MetricsQueue {
-  private static isDev = false;
-  public static enabled = false;
-  private static usePerformanceAPI = true;
-  private static mark: null | typeof performance.mark = null;
-  private static measure: null | typeof performance.measure = null;
-  private static emitter: HashTable<MetricIndexer> = {};
-  public static plugins: HashTable<(...args: any[]) => void> = {};
+export class MetricsQueueInstance<
+  Events extends EventMap<Events> = DefaultEventMap,
+  Plugins extends string = string
+> {
+  private static subscribers = new Map<PerformanceBackend, Set<MetricsQueueInstance<any, any>>>();
+  public readonly errorEvent = "metrics-queue:error";
+  private isDev = false;
+  public enabled = false;
+  private sticky = false;
+  private usePerformanceAPI = true;
+  private performance: PerformanceBackend = PerformanceBackends.noop;
+  private mark: null | PerformanceBackend["mark"] = null;
+  private measure: null | PerformanceBackend["measure"] = null;
+  private emitter: HashTable<MetricIndexer> = {};
+  private patterns: HashTable<PatternIndexer> = {};
+  private pluginHistory: HashTable<BustPluginMetric> = {};
+  private emissionOrder: HashTable<number> = {};
+  private emissions = 0;
+  private composites: HashTable<CompositeListener> = {};
+  private derivedMeasures: HashTable<DerivedMeasure> = {};
+  private budgets: BudgetMonitor | null = null;
+  private tiers: TierClassifier | null = null;
+  private stats: HashTable<RollingWindow> | null = {};
+  private statsSamples = 100;
+  private reporter: Reporter | null = null;
+  private tracer: DebugTracer | null = null;
+  private profiler: ListenerProfiler | null = null;
+  private leaks: LeakDetector | null = null;
+  private recorder: SessionRecorder | null = null;
+  private observer: PerformanceEntryObserver | null = null;
+  private vitals: WebVitals | null = null;
+  private onError: ErrorHandler | null = null;
+  public plugins = {} as Record<Plugins, PluginEmitter<Events>>;
+  private pluginOptions: Partial<Record<Plugins, PluginOptions>> = {};
+  private IDs: IDGenerator;
+
+  /**
+   * @param {IDGenerator} IDs - the source of listener IDs. Defaults to an ID space owned by the instance
+   */
+  constructor(IDs: IDGenerator = new AutoIncrementingID()) {
+    this.IDs = IDs;
+  }
 
   /**
    * Enable the MetricsQueue, do it once and fuggettaboutit
@@ -37,25 +119,99 @@ export class MetricsQueue {
    * @param {Function} onReady - An optional callback to invoke once the MetricsQueue is initialized
    * @param {HashTable<PluginOptions>} plugins - optional support for external performance libraries libraries
    * @param {Boolean} usePerformanceAPI - whether to enable the MetricsQueue for native Performance.mark and measure
+   * @param {Boolean} sticky - whether listeners should be replayed metrics reached before their registration by default
+   * @param {HashTable<Budget>} budgets - performance budgets to evaluate metrics against
+   * @param {Boolean | StatsConfig} stats - whether to aggregate the values of each metric reached. Defaults to true
+   * @param {ReporterConfig} reporter - batches the metrics reached and ships them using a transport
+   * @param {Boolean | DebugConfig} debug - whether to trace each registration, emission and listener execution
+   * @param {Boolean | ListenerTimingConfig} listenerTiming - whether to time each listener, emitting "slow-listener"
+   *                                                          events for listeners exceeding a budget
+   * @param {Boolean | ObserverConfig} observer - whether to receive performance entries using a PerformanceObserver
+   *                                               instead of adding middleware to performance.mark and measure
+   * @param {Boolean} vitals - whether to emit the Core Web Vitals as "LCP", "CLS", "INP", "FCP" and "TTFB" events
+   * @param {TierConfig} tiers - weighted rules classifying the user's experience as "fast", "average" or "slow".
+   *                             Changes of tier are emitted as "tier-change" events
+   * @param {ErrorHandler} onError - receives errors thrown by listeners and the Performance API
+   * @param {number} maxListeners - the number of listeners an event can hold before a leak is detected
+   * @param {Boolean | LeakDetectionConfig} leakDetection - the policy used to detect listener leaks in development.
+   *                                                        Defaults to warning when an event exceeds maxListeners
+   * @param {PerformanceBackend} performance - the Performance API implementation to subscribe to, such as Node's
+   *                                           perf_hooks.performance. Defaults to the global Performance API
    */
-  public static init({ onReady, plugins, usePerformanceAPI = true }: InitConfig = {}) {
+  public init({
+    performance,
+    onReady,
+    onError,
+    maxListeners = 20,
+    leakDetection = true,
+    plugins,
+    budgets,
+    stats = true,
+    reporter,
+    debug,
+    listenerTiming,
+    observer,
+    vitals,
+    tiers,
+    usePerformanceAPI = true,
+    sticky = false,
+  }: InitConfig<Plugins, Events> = {}) {
     this.enabled = true;
     this.isDev = process.env.NODE_ENV !== "production";
     this.usePerformanceAPI = usePerformanceAPI;
+    this.performance = PerformanceBackends.resolve(performance);
+    this.sticky = sticky;
+    if (typeof onError === "function") {
+      this.onError = onError;
+    }
+    this.stats = stats ? {} : null;
+    if (typeof stats === "object" && typeof stats.samples === "number") {
+      this.statsSamples = stats.samples;
+    }
+    if (debug) {
+      this.tracer = new DebugTracer(typeof debug === "object" ? debug : undefined);
+    }
+    if (this.isDev && leakDetection) {
+      this.leaks = new LeakDetector(
+        typeof leakDetection === "object" ? leakDetection : {},
+        maxListeners,
+        () => [this.emitter, this.patterns],
+        this.reportError.bind(this)
+      );
+      this.leaks.start();
+    }
+    if (listenerTiming) {
+      this.profiler = new ListenerProfiler(typeof listenerTiming === "object" ? listenerTiming : undefined);
+    }
+    if (typeof reporter === "object") {
+      this.reporter = new Reporter(reporter, this.reportError.bind(this));
+      this.reporter.start();
+    }
+    if (typeof budgets === "object") {
+      this.budgets = new BudgetMonitor(budgets);
+    }
+    if (typeof tiers === "object") {
+      this.tiers = new TierClassifier(tiers, (change) => {
+        void this.onPluginEvent(TierClassifier.event, change);
+      });
+      this.tiers.start();
+    }
     if (typeof onReady === "function") {
       onReady(this);
     }
-    if (this.usePerformanceAPI && window.performance) {
-      // Hold a copy of the default behaviors
-      this.mark = performance.mark;
-      this.measure = performance.measure;
-      // Add a middleware to the mark and measure methods
-      performance.mark = this.markMiddleware as unknown as PerformanceMarkMethod;
-      performance.measure = this.measureMiddlware as unknown as PerformanceMeasureMethod;
+    if (this.usePerformanceAPI && observer && PerformanceEntryObserver.supported) {
+      this.observer = new PerformanceEntryObserver(this.onEntry.bind(this));
+      this.observer.observe(typeof observer === "object" ? observer : undefined);
+    } else if (this.usePerformanceAPI && PerformanceBackends.isOperable(this.performance)) {
+      this.patchPerformanceAPI();
     }
     if (typeof plugins === "object") {
       this.registerPlugins(plugins);
     }
+    if (vitals) {
+      this.vitals = new WebVitals((vital) => this.onPluginEvent(vital.name, vital));
+      this.vitals.start();
+    }
   }
 
   /**
@@ -63,68 +219,197 @@ export class MetricsQueue {
    * * For internal use only
    *
    * @param {HashTable<PluginOptions>} plugins - A list of methods to expose as well as how to handle callback
-   *                                             callback executions
+   *                                             callback executions. Each plugin's "setup" option is called
+   *                                             once every plugin is registered
    */
-  private static registerPlugins(plugins: HashTable<PluginOptions>) {
+  private registerPlugins(plugins: Record<Plugins, PluginOptions>) {
     for (const plug in plugins) {
-      const { processAfterCallStack } = plugins[plug];
-      if (processAfterCallStack) {
+      const {
+        processAfterCallStack,
+        normalize,
+        schedule = processAfterCallStack ? "microtask" : "sync",
+      } = plugins[plug];
+      const emit = (metric: string, ...args: any[]) =>
+        normalize
+          ? this.normalizePluginEvent(normalize, metric, ...args)
+          : this.onPluginEvent(metric, ...args);
+      if (Scheduler.toOptions(schedule).strategy !== "sync") {
         // eslint-disable-next-line arrow-body-style
-        this.plugins[plug] = (...args: [metric: string, ...args: any[]]) => {
-          return this.processAfterCallStack(this.onPluginEvent.bind(this, ...args));
-        };
+        this.plugins[plug] = ((...args: [metric: string, ...args: any[]]) => {
+          return Scheduler.run(schedule, () => emit(...args));
+        }) as PluginEmitter<Events>;
       } else {
-        this.plugins[plug] = this.onPluginEvent.bind(this);
+        this.plugins[plug] = emit as PluginEmitter<Events>;
+      }
+    }
+    this.pluginOptions = plugins;
+    for (const plug in plugins) {
+      const { setup } = plugins[plug];
+      if (typeof setup === "function") {
+        this.safetyWrap(setup, [this, this.plugins[plug]], (error) =>
+          this.reportError(error, { event: plug, phase: "plugin" })
+        );
       }
     }
   }
 
+  /**
+   * Map the arguments of a plugin event to a common shape before emitting it. Events
+   * whose arguments fail to normalize are reported to the error handler and dropped
+   * * For internal use only
+   *
+   * @param {Function} normalize - the plugin's "normalize" option
+   * @param {string} metric - the name of a custom library's performance metric
+   * @param {any[]} args - the arguments provided by the plugin
+   */
+  private normalizePluginEvent(
+    normalize: Required<PluginOptions>["normalize"],
+    metric: string,
+    ...args: any[]
+  ) {
+    const normalized = this.safetyWrap(normalize, [args], (error) =>
+      this.reportError(error, { event: metric, phase: "plugin" })
+    );
+    if (Array.isArray(normalized)) {
+      return this.onPluginEvent(metric, ...normalized);
+    }
+  }
+
+  /**
+   * Call the "teardown" option of each registered plugin
+   * * For internal use only
+   */
+  private teardownPlugins() {
+    for (const plug in this.pluginOptions) {
+      const { teardown } = this.pluginOptions[plug] as PluginOptions;
+      if (typeof teardown === "function") {
+        this.safetyWrap(teardown, [], (error) => this.reportError(error, { event: plug, phase: "plugin" }));
+      }
+    }
+    this.pluginOptions = {};
+  }
+
+  /**
+   * Add middleware to performance.mark and performance.measure. Only one MetricsQueue
+   * can own a Performance API at a time - when it's already owned, the instance
+   * subscribes to the owner's middleware instead
+   * * For internal use only
+   */
+  private patchPerformanceAPI() {
+    const subscribers = MetricsQueueInstance.getSubscribers(this.performance);
+    subscribers.add(this);
+    if (subscribers.size > 1) {
+      return;
+    }
+    // Hold a copy of the default behaviors
+    this.mark = this.performance.mark;
+    this.measure = this.performance.measure;
+    // Add a middleware to the mark and measure methods
+    this.performance.mark = this.markMiddleware as unknown as PerformanceMarkMethod;
+    this.performance.measure = this.measureMiddlware as unknown as PerformanceMeasureMethod;
+  }
+
+  /**
+   * Restore the Performance API's default behaviors and transfer ownership of the
+   * Performance API to the next subscribed MetricsQueue
+   * * For internal use only
+   */
+  private restorePerformanceAPI() {
+    const subscribers = MetricsQueueInstance.getSubscribers(this.performance);
+    const [owner] = subscribers;
+    subscribers.delete(this);
+    if (owner !== this) {
+      return;
+    }
+    this.performance.mark = this.mark as PerformanceMarkMethod;
+    this.performance.measure = this.measure as PerformanceMeasureMethod;
+    const [next] = subscribers;
+    if (next) {
+      subscribers.delete(next);
+      next.patchPerformanceAPI();
+    } else {
+      MetricsQueueInstance.subscribers.delete(this.performance);
+    }
+  }
+
+  /**
+   * Returns the MetricsQueues subscribed to a Performance API. The first
+   * subscriber owns the Performance API's middleware
+   * * For internal use only
+   *
+   * @param {PerformanceBackend} backend - a Performance API implementation
+   */
+  private static getSubscribers(backend: PerformanceBackend) {
+    if (!this.subscribers.has(backend)) {
+      this.subscribers.set(backend, new Set());
+    }
+    return this.subscribers.get(backend) as Set<MetricsQueueInstance>;
+  }
+
   /**
    * Trigger listeners on performance marks (inherits native performance.mark arguments)
+   * on each MetricsQueue subscribed to the Performance API
    * * For internal use only
    *
    * @param {string} markName - The native markName for performance.mark
    * @param {PerformanceMarkOptions | undefined} markOptions - the native mark options for performance.mark
    */
-  private static markMiddleware(...args: PerformanceMarkParameters) {
+  private markMiddleware = (...args: PerformanceMarkParameters) => {
+    const subscribers = MetricsQueueInstance.getSubscribers(this.performance);
     // Execute the default behavior, first, always
     let performanceMark: null | PerformanceMark = null;
-    MetricsQueue.safetyWrap(() => {
-      performanceMark = MetricsQueue.mark?.apply(this, args) ?? null;
-    });
+    this.safetyWrap(
+      () => {
+        performanceMark = this.mark?.apply(this.performance, args) ?? null;
+      },
+      [],
+      (error) =>
+        subscribers.forEach((queue) => queue.reportError(error, { event: args[0], phase: "performance-api" }))
+    );
     // Allow performance.mark to return the mark before any registered
     // callbacks are called
-    void MetricsQueue.processAfterCallStack(() => {
-      // Emit the onMark event for the metric reached
-      MetricsQueue.onMark(performanceMark, args);
+    subscribers.forEach((queue) => {
+      void queue.processAfterCallStack(() => {
+        // Emit the onMark event for the metric reached
+        queue.onMark(performanceMark, args);
+      });
     });
     // Return the default PerformanceMark
     return performanceMark;
-  }
+  };
 
   /**
    * Trigger listeners on performance measures (inherits native performance.measure arguments)
+   * on each MetricsQueue subscribed to the Performance API
    * * For internal use only
    *
    * @param {string} measureName - The native measure name for performance.measure
    * @param {string | PerformanceMeasureOptions} startOrMeasureOptions - the native measure options for performance.measure
    * @param {string} endMark - The native endMark for performance.measure
    */
-  private static measureMiddlware(...args: PerformanceMeasureParameters) {
+  private measureMiddlware = (...args: PerformanceMeasureParameters) => {
+    const subscribers = MetricsQueueInstance.getSubscribers(this.performance);
     // Execute the default behavior, first, always
     let performanceMeasure: null | PerformanceMeasure = null;
-    MetricsQueue.safetyWrap(() => {
-      performanceMeasure = MetricsQueue.measure?.apply(this, args) ?? null;
-    });
+    this.safetyWrap(
+      () => {
+        performanceMeasure = this.measure?.apply(this.performance, args) ?? null;
+      },
+      [],
+      (error) =>
+        subscribers.forEach((queue) => queue.reportError(error, { event: args[0], phase: "performance-api" }))
+    );
     // Allow performance.measure to return the measure before any
     // registered callbacks are called
-    void MetricsQueue.processAfterCallStack(() => {
-      // Emit the onMeasure event for the metric reached
-      MetricsQueue.onMeasure(performanceMeasure, args);
+    subscribers.forEach((queue) => {
+      void queue.processAfterCallStack(() => {
+        // Emit the onMeasure event for the metric reached
+        queue.onMeasure(performanceMeasure, args);
+      });
     });
     // Return the default PerformanceMeasure
     return performanceMeasure;
-  }
+  };
 
   /**
    * Execute callbacks on listeners registered to a particular mark
@@ -132,16 +417,78 @@ export class MetricsQueue {
    *
    * @param {object | undefined} options - the options of a performance.mark
    * @param {PerformanceMark} performanceMark - the return value of the performance.mark
+   * @param {boolean} derive - whether to create the derived measures the mark completes. Replayed
+   *    marks don't, since the measures they derived were recorded alongside them
    */
-  private static async onMark(
+  private async onMark(
     performanceMark: PerformanceMark | null,
-    performanceMarkParams: PerformanceMarkParameters
+    performanceMarkParams: PerformanceMarkParameters,
+    derive = true
   ): Promise<void> {
-    const [markName] = performanceMarkParams;
-    if (markName in this.emitter) {
-      await this.emitter[markName].bust(performanceMark, ...performanceMarkParams);
-      this.checkForEmptyIndexer(markName);
+    const [markName, markOptions] = performanceMarkParams;
+    this.recorder?.record("mark", markName, [performanceMark, ...performanceMarkParams]);
+    this.track(markName, [performanceMark, ...performanceMarkParams]);
+    if (derive) {
+      this.deriveMeasures(markName, performanceMark?.startTime ?? markOptions?.startTime);
+    }
+    await this.bust(markName, [performanceMark, ...performanceMarkParams]);
+  }
+  /**
+   * Create the measures whose start and end marks have been reached in order
+   * * For internal use only
+   *
+   * @param {string} markName - the name of the mark reached
+   * @param {number | undefined} startTime - the mark's start time, when known
+   */
+  private deriveMeasures(markName: string, startTime?: number) {
+    for (const name in this.derivedMeasures) {
+      const derivedMeasure = this.derivedMeasures[name];
+      const params = derivedMeasure.onMark(markName, startTime);
+      if (!params) {
+        continue;
+      }
+      if (derivedMeasure.completed) {
+        delete this.derivedMeasures[name];
+      }
+      this.createMeasure(params);
+    }
+  }
+
+  /**
+   * Create a measure using the Performance API's default measure method and emit it
+   * to each MetricsQueue subscribed to the Performance API, as the middleware would
+   * * For internal use only
+   *
+   * @param {PerformanceMeasureParameters} params - the arguments of the performance.measure to create
+   */
+  private createMeasure(params: PerformanceMeasureParameters) {
+    const [measureName] = params;
+    let performanceMeasure: PerformanceMeasure | null = null;
+    this.safetyWrap(
+      () => {
+        performanceMeasure = this.defaultMeasure.apply(this.performance, params) ?? null;
+      },
+      [],
+      (error) => this.reportError(error, { event: measureName, phase: "performance-api" })
+    );
+    // Measures created while observing the Performance API are routed by the PerformanceEntryObserver
+    if (this.observer) {
+      return;
     }
+    const subscribers = MetricsQueueInstance.subscribers.get(this.performance);
+    (subscribers?.size ? Array.from(subscribers) : [this]).forEach((queue) => {
+      void queue.onMeasure(performanceMeasure, params);
+    });
+  }
+
+  /**
+   * The Performance API's default measure method. While the Performance API is patched, the
+   * default method is held by the MetricsQueue owning the middleware
+   * * For internal use only
+   */
+  private get defaultMeasure() {
+    const [owner] = MetricsQueueInstance.subscribers.get(this.performance) ?? [];
+    return owner?.measure ?? this.performance.measure;
   }
 
   /**
@@ -151,17 +498,56 @@ export class MetricsQueue {
    * @param {PerformanceMeasure} performanceMeasure - the return value of the performance.measure
    * @param {performanceMeasureParams} performanceMeasure - the options passed performance.measure
    */
-  private static async onMeasure(
+  private async onMeasure(
     performanceMeasure: PerformanceMeasure | null,
     performanceMeasureParams: PerformanceMeasureParameters
   ): Promise<void> {
     const [measureName] = performanceMeasureParams;
-    if (measureName in this.emitter) {
-      await this.emitter[measureName].bust(performanceMeasure, ...performanceMeasureParams);
-      this.checkForEmptyIndexer(measureName);
+    this.recorder?.record("measure", measureName, [performanceMeasure, ...performanceMeasureParams]);
+    this.track(measureName, [performanceMeasure, ...performanceMeasureParams]);
+    await this.bust(measureName, [performanceMeasure, ...performanceMeasureParams]);
+  }
+
+  /**
+   * Route performance entries received by the PerformanceEntryObserver to listeners
+   * registered on the entry's name
+   * * For internal use only
+   *
+   * @param {PerformanceEntry} entry - any entry observed from the Performance API
+   */
+  private onEntry(entry: PerformanceEntry) {
+    switch (entry.entryType) {
+      case "mark":
+        return this.onMark(
+          entry as PerformanceMark,
+          PerformanceEntries.toMarkParameters(entry as PerformanceMark)
+        );
+      case "measure":
+        // Listener execution times aren't routed back to listeners
+        if (ListenerProfiler.isListenerMeasure(entry.name)) {
+          return;
+        }
+        return this.onMeasure(
+          entry as PerformanceMeasure,
+          PerformanceEntries.toMeasureParameters(entry as PerformanceMeasure)
+        );
+      default:
+        return this.onBrowserEntry(entry);
     }
   }
 
+  /**
+   * Execute callbacks on listeners registered to a browser-generated performance entry
+   * such as "first-contentful-paint" or a resource's URL
+   * * For internal use only
+   *
+   * @param {PerformanceEntry} entry - a paint, navigation, resource, longtask or largest-contentful-paint entry
+   */
+  private async onBrowserEntry(entry: PerformanceEntry): Promise<void> {
+    this.track(entry.name, [entry]);
+    await this.bust(entry.name, [entry]);
+  }
+
   /**
    * Execute callbacks on listeners registered on an external performance library
    * * For internal use only
@@ -169,10 +555,107 @@ export class MetricsQueue {
    * @param {string} metric - the name of a custom library's performance metric
    * @param {any[]} args - any parameters to be forward to subscriptions
    */
-  public static async onPluginEvent(metric: string, ...args: any[]): Promise<void> {
-    if (metric in this.emitter) {
-      await this.emitter[metric].bust(...args);
-      this.checkForEmptyIndexer(metric);
+  public async onPluginEvent(metric: string, ...args: any[]): Promise<void> {
+    this.pluginHistory[metric] = args;
+    this.recordPluginEvent(metric, args);
+    this.track(metric, args);
+    await this.bust(metric, args);
+  }
+
+  /**
+   * Record a plugin metric while a session is being recorded. Errors, budget violations, slow
+   * listeners and changes of tier are omitted, since the MetricsQueue a session is replayed into
+   * reports its own
+   * * For internal use only
+   *
+   * @param {string} metric - the name of a custom library's performance metric
+   * @param {any[]} args - any parameters to be forward to subscriptions
+   */
+  private recordPluginEvent(metric: string, args: any[]) {
+    if (
+      !this.recorder ||
+      [this.errorEvent, BudgetMonitor.event, ListenerProfiler.event, TierClassifier.event].includes(metric)
+    ) {
+      return;
+    }
+    this.recorder.record("plugin", metric, args);
+  }
+
+  /**
+   * Trace each metric reached in debug mode, aggregate it, collect it for reporting, and evaluate
+   * it against the MetricsQueue's performance budgets. Metrics are tracked before their listeners
+   * are invoked
+   * * For internal use only
+   *
+   * @param {string} metric - the name of a performance mark, measure, or external performance event
+   * @param {Parameters<Listener>} params - the arguments forwarded to event listeners
+   */
+  private track(metric: string, params: Parameters<Listener>) {
+    this.emissionOrder[metric] = ++this.emissions;
+    const value = MetricValue.from(params[0]);
+    this.tracer?.record({ type: "emit", event: metric, value });
+    if (this.stats && value !== null) {
+      if (!(metric in this.stats)) {
+        this.stats[metric] = new RollingWindow(this.statsSamples);
+      }
+      this.stats[metric].add(value);
+    }
+    if (this.reporter && metric !== this.errorEvent) {
+      this.reporter.collect(metric, params);
+    }
+    this.budgets?.evaluate(metric, params).forEach((violation) => {
+      void this.onPluginEvent(BudgetMonitor.event, violation);
+    });
+    this.tiers?.observe(metric, params);
+  }
+
+  /**
+   * Execute callbacks on listeners registered to an event's exact name and on pattern
+   * listeners matching it. Both are busted together, so listeners deferred using a
+   * schedule do not hold back the others
+   * * For internal use only
+   *
+   * @param {string} event - the name of a performance mark, measure, or external performance event
+   * @param {Parameters<Listener>} params - the arguments forwarded to event listeners
+   */
+  private async bust(event: string, params: Parameters<Listener>) {
+    await Promise.all([this.bustExact(event, params), this.bustPatterns(event, params)]);
+  }
+
+  /**
+   * Execute callbacks on listeners registered to an event's exact name
+   * * For internal use only
+   *
+   * @param {string} event - the name of a performance mark, measure, or external performance event
+   * @param {Parameters<Listener>} params - the arguments forwarded to event listeners
+   */
+  private async bustExact(event: string, params: Parameters<Listener>) {
+    if (event in this.emitter) {
+      await this.emitter[event].bust(...params);
+      this.checkForEmptyIndexer(event);
+    }
+  }
+
+  /**
+   * Execute callbacks on pattern listeners matching the name of an event
+   * * For internal use only
+   *
+   * @param {string} event - the name of a performance mark, measure, or external performance event
+   * @param {Parameters<Listener>} params - the arguments forwarded to event listeners
+   */
+  private async bustPatterns(event: string, params: Parameters<Listener>) {
+    const busts: Promise<void>[] = [];
+    for (const key in this.patterns) {
+      if (this.patterns[key].matches(event)) {
+        busts.push(
+          this.patterns[key].bust(event, ...params).then(() => {
+            this.checkForEmptyIndexer(key, this.patterns);
+          })
+        );
+      }
+    }
+    if (busts.length) {
+      await Promise.all(busts);
     }
   }
 
@@ -181,20 +664,183 @@ export class MetricsQueue {
    * * For internal use only
    *
    * @param {string} key - an inded on the MetricsQueue's emitter
+   * @param {HashTable<MetricIndexer>} indexers - the emitter or pattern listeners holding the MetricIndexer
    */
-  private static checkForEmptyIndexer(key: string) {
-    if (this.emitter[key].size === 0) {
-      delete this.emitter[key];
+  private checkForEmptyIndexer(key: string, indexers: HashTable<MetricIndexer> = this.emitter) {
+    if (key in indexers && indexers[key].size === 0) {
+      delete indexers[key];
     }
   }
 
+  /**
+   * Route errors thrown by listeners and the Performance API to the "onError" handler
+   * and listeners of the "metrics-queue:error" event. Errors thrown by listeners of
+   * "metrics-queue:error" are not re-emitted
+   * * For internal use only
+   *
+   * @param {unknown} error - the error thrown
+   * @param {ErrorContext} context - the event, listener ID and phase in which the error was thrown
+   */
+  private reportError(error: unknown, context: ErrorContext) {
+    let handled = false;
+    if (typeof this.onError === "function") {
+      handled = true;
+      this.safetyWrap(this.onError, [error, context], (handlerError) => console.error(handlerError));
+    }
+    if (context.event !== this.errorEvent && this.errorEvent in this.emitter) {
+      handled = true;
+      void this.onPluginEvent(this.errorEvent, error, context);
+    }
+    if (!handled) {
+      console.error(error);
+    }
+  }
+
+  /**
+   * Returns the rolling aggregates of a metric - its count, min, max, mean, and p50,
+   * p75, p90, p95 and p99 over its most recent values. Listeners reading the stats
+   * of the metric they're registered on receive aggregates including the current value
+   *
+   * @param {string} event - The name a performance.mark, measure, or external performance event
+   * @returns {MetricStats | null} - null when the metric hasn't been reached or stats are disabled
+   */
+  public getStats(event: EventName<Events>): MetricStats | null {
+    if (!this.stats || !(event in this.stats)) {
+      return null;
+    }
+    return this.stats[event].toStats();
+  }
+
+  /**
+   * The time, in milliseconds since the epoch, that the clock of the MetricsQueue's Performance API started at
+   */
+  public get timeOrigin() {
+    return PerformanceBackends.timeOrigin(this.performance);
+  }
+
+  /**
+   * Returns the user's performance tier, as classified by the "tiers" option of MetricsQueue.init
+   *
+   * @returns {PerformanceTier | null} - null until a metric is classified or when tiers are disabled
+   */
+  public getTier(): PerformanceTier | null {
+    return this.tiers?.tier ?? null;
+  }
+
+  /**
+   * Returns the events and patterns with registered listeners along with each listener's
+   * ID, config and, in debug mode, the stack trace of its registration
+   */
+  public inspect(): Inspection {
+    const snapshot = (indexers: HashTable<MetricIndexer>) => {
+      const snapshots: Inspection["events"] = {};
+      for (const key in indexers) {
+        snapshots[key] = indexers[key].snapshot();
+      }
+      return snapshots;
+    };
+    return {
+      events: snapshot(this.emitter),
+      patterns: snapshot(this.patterns),
+      composites: Object.keys(this.composites),
+    };
+  }
+
+  /**
+   * Returns the registrations, emissions and listener executions recorded in debug mode
+   *
+   * @returns {TraceEntry[]} - the trace buffer, oldest entries first. Empty when debug mode is disabled
+   */
+  public getTrace(): TraceEntry[] {
+    return this.tracer?.trace ?? [];
+  }
+
+  /**
+   * Empty the trace buffer recorded in debug mode
+   */
+  public clearTrace() {
+    this.tracer?.clear();
+  }
+
+  /**
+   * Begin recording each mark, measure and plugin metric reached. Starting a new recording
+   * discards the current one
+   *
+   * @param {RecordingConfig} config - Accepts:
+   *    "maxEmissions": the number of emissions after which recording stops. Defaults to 1000
+   */
+  public startRecording(config?: RecordingConfig) {
+    this.recorder = new SessionRecorder(() => this.performance.now(), config);
+  }
+
+  /**
+   * Stop recording and return the recorded session
+   *
+   * @returns {RecordedSession | null} - a JSON-serializable session. null when no recording was started
+   */
+  public stopRecording(): RecordedSession | null {
+    const session = this.recorder?.toJSON() ?? null;
+    this.recorder = null;
+    return session;
+  }
+
+  /**
+   * Emit each mark, measure and plugin metric of a recorded session to the MetricsQueue's
+   * listeners, as they were originally reached. Marks and measures are not recreated
+   * using the Performance API
+   *
+   * @param {RecordedSession} session - a session returned from MetricsQueue.stopRecording
+   * @param {ReplayOptions} options - Accepts:
+   *    "speed": the factor the session's timing is compressed by. Use Infinity to replay without
+   *             waiting. Defaults to 1
+   *    "maxGap": the maximum number of milliseconds to wait between emissions. Defaults to Infinity
+   *    "signal": an AbortSignal that stops the replay when aborted
+   * @returns {Promise<void>} - resolves once each emission is replayed
+   */
+  public async replaySession(session: RecordedSession, options?: ReplayOptions) {
+    if (!SessionRecorder.isSession(session)) {
+      throw new TypeError(
+        "MetricsQueue.replaySession expects a session returned from MetricsQueue.stopRecording"
+      );
+    }
+    await SessionRecorder.replay(session, (emission) => this.replayEmission(emission), options);
+  }
+
+  /**
+   * Emit a single recorded emission
+   * * For internal use only
+   *
+   * @param {RecordedEmission} emission - a mark, measure or plugin metric recorded by a SessionRecorder
+   */
+  private replayEmission({ type, name, args }: RecordedEmission) {
+    // Omitted options are serialized as null
+    const [entry = null, , ...options] = args.map((arg) => arg ?? undefined);
+    switch (type) {
+      case "mark":
+        return this.onMark(entry, [name, ...options] as PerformanceMarkParameters, false);
+      case "measure":
+        return this.onMeasure(entry, [name, ...options] as PerformanceMeasureParameters);
+      default:
+        return this.onPluginEvent(name, ...args);
+    }
+  }
+
+  /**
+   * Send each metric collected by the reporter without waiting for its batch to fill
+   *
+   * @returns {Promise<void>} - resolves once each batch is sent or has exhausted its retries
+   */
+  public async flush() {
+    await this.reporter?.flush();
+  }
+
   /**
    * Register a callback as a microtask to be executed after the current callstack
    * * For internal use only
    *
    * @param {Function} callback - anything but ideally limited to O(n) or less
    */
-  private static async processAfterCallStack(callback: () => any) {
+  private async processAfterCallStack(callback: () => any) {
     await Promise.resolve();
     return callback();
   }
@@ -202,7 +848,9 @@ export class MetricsQueue {
   /**
    * Register an event listener on a performance mark/measure or an external performance event
    *
-   * @param {string} event - The name a performance.mark, measure, or external performance event
+   * @param {string | RegExp} event - The name a performance.mark, measure, or external performance event. RegExps
+   *    and names containing "*" register pattern listeners - these receive the name of the event reached followed
+   *    by the arguments an event listener would receive
    * @param {Function} callback - A callback to run once your mark is reached
    * @param {ListenerConfig} config - The config takes two optional paramenters - "passive" and "keepAlive" -
    *    "passive": tells the MetricsQueue to run the callback after the current callstack has cleared. This
@@ -212,28 +860,240 @@ export class MetricsQueue {
    *               be called each time the metric is reached. This behavior is mimical of "click" events on on the
    *               DOM as opposed to "onLoad" events on the window, which fire once.
    *               It is false by default.
+   *    "sticky": tells the MetricsQueue to immediately invoke the callback if the metric was reached before the
+   *              listener was registered. Defaults to the "sticky" option provided to MetricsQueue.init.
+   *    "when": a predicate or a declarative condition ("durationAbove", "durationBelow", "detailMatches") that
+   *            must be met for the callback to run. Listeners whose condition isn't met remain registered.
+   *    "times": the number of times the callback runs before the listener is removed, regardless of "keepAlive".
+   *    "skip": the number of occurrences of the metric to ignore before the callback runs.
+   *    "throttle": the number of milliseconds during which occurrences following an execution are ignored.
+   *    "debounce": the number of milliseconds to wait for the metric to stop occurring before the callback
+   *                runs with its latest occurrence.
+   *    "batch": invokes the callback with an array of the arguments of each occurrence once the batch reaches
+   *             its "size", or its oldest occurrence has waited "maxWait" milliseconds.
    */
-  public static addEventListener(event: string, callback: Listener, config?: ListenerConfig) {
+  public addEventListener<Event extends EventName<Events>>(
+    event: Event,
+    callback: BatchListener<Events, Event>,
+    config: BatchedListenerConfig
+  ): string;
+  public addEventListener(
+    event: EventPattern,
+    callback: (batch: Parameters<PatternListener<Events>>[]) => void,
+    config: BatchedListenerConfig
+  ): string;
+  public addEventListener(
+    event: EventPattern,
+    callback: PatternListener<Events>,
+    config?: ListenerConfig
+  ): string;
+  public addEventListener<Event extends EventName<Events>>(
+    event: Event,
+    callback: EventListener<Events, Event>,
+    config?: ListenerConfig
+  ): string;
+  public addEventListener(
+    event: string | RegExp,
+    callback: (...args: any) => void,
+    config?: ListenerConfig
+  ): string {
     if (this.isDev) {
       this.validateListener(event, callback, config);
     }
-    if (event in this.emitter) {
-      if (this.isDev) {
-        this.emitter[event].chubbinessCheck(event);
+    const callSite = this.tracer || this.leaks ? DebugTracer.callSite() : undefined;
+    if (PatternIndexer.isPattern(event)) {
+      const key = PatternIndexer.toKey(event);
+      this.leaks?.check(key);
+      const ID = this.addPatternListener(event, callback, config, callSite);
+      this.leaks?.register(ID, callSite);
+      this.tracer?.record({ type: "register", event: key, listenerID: ID, callSite });
+      return ID;
+    }
+    this.leaks?.check(event);
+    if (!(event in this.emitter)) {
+      this.emitter[event] = new MetricIndexer(event, this.indexerOptions(this.emitter));
+    }
+    const ID = this.emitter[event].add(callback as Listener, config, this.tracer ? callSite : undefined);
+    this.leaks?.register(ID, callSite);
+    this.tracer?.record({ type: "register", event, listenerID: ID, callSite });
+    if (config?.sticky ?? this.sticky) {
+      this.replay(event, ID);
+    }
+    return ID;
+  }
+
+  /**
+   * Register a listener on each event matching a pattern. Pattern listeners are invoked
+   * with metrics reached after their registration
+   * * For internal use only
+   *
+   * @param {EventPattern} pattern - a RegExp or a glob in which "*" matches any sequence of characters
+   * @param {Function} callback - A callback receiving the name of the event reached and its arguments
+   * @param {ListenerConfig} config - Supports the "passive", "keepAlive" and "when" options of addEventListener
+   * @param {string} callSite - an optional stack trace of the listener's registration
+   */
+  private addPatternListener(
+    pattern: EventPattern,
+    callback: Listener | PatternListener<any>,
+    config?: ListenerConfig,
+    callSite?: string
+  ) {
+    const key = PatternIndexer.toKey(pattern);
+    if (!(key in this.patterns)) {
+      this.patterns[key] = new PatternIndexer(pattern, this.indexerOptions(this.patterns));
+    }
+    return this.patterns[key].add(callback, config, this.tracer ? callSite : undefined);
+  }
+
+  /**
+   * The options of each MetricIndexer created by the MetricsQueue
+   * * For internal use only
+   *
+   * @param {HashTable<MetricIndexer>} indexers - the emitter or patterns the MetricIndexer is registered to
+   */
+  private indexerOptions(indexers: HashTable<MetricIndexer>): MetricIndexerOptions {
+    const options: MetricIndexerOptions = {
+      IDs: this.IDs,
+      onError: this.reportError.bind(this),
+      onEmpty: (key) => this.checkForEmptyIndexer(key, indexers),
+    };
+    if (this.leaks) {
+      options.onRemove = (ID) => this.leaks?.unregister(ID);
+    }
+    if (this.tracer || this.profiler) {
+      options.onExecute = (execution) => {
+        this.tracer?.record({ type: "listener", ...execution });
+        this.profileListener(execution);
+      };
+    }
+    return options;
+  }
+
+  /**
+   * Record a listener's execution time as a performance.measure when enabled, and emit
+   * "slow-listener" events for listeners exceeding the listener timing budget
+   * * For internal use only
+   *
+   * @param {ListenerExecution} execution - the event, listener ID and execution time of a listener
+   */
+  private profileListener(execution: ListenerExecution) {
+    if (!this.profiler) {
+      return;
+    }
+    if (this.profiler.measure) {
+      this.measureListener(execution);
+    }
+    const slowListener = this.profiler.evaluate(execution);
+    if (slowListener) {
+      void this.profiler.report(slowListener, (violation) =>
+        this.onPluginEvent(ListenerProfiler.event, violation)
+      );
+    }
+  }
+
+  /**
+   * Record a listener's execution time using the Performance API's default measure
+   * method, bypassing the MetricsQueue's middleware
+   * * For internal use only
+   *
+   * @param {ListenerExecution} execution - the event, listener ID and execution time of a listener
+   */
+  private measureListener({ event, listenerID, duration }: ListenerExecution) {
+    this.safetyWrap(
+      () =>
+        this.defaultMeasure.call(this.performance, ListenerProfiler.measureName({ event, listenerID }), {
+          end: this.performance.now(),
+          duration,
+          detail: { event, listenerID },
+        }),
+      [],
+      (error) => this.reportError(error, { event, listenerID, phase: "performance-api" })
+    );
+  }
+
+  /**
+   * Invoke a newly registered listener if its metric was already reached
+   * * For internal use only
+   *
+   * @param {string} event - The name a performance.mark, measure, or external performance event
+   * @param {string} ID - The ID returned from MetricIndexer.add
+   */
+  private replay(event: string, ID: string) {
+    const params = this.getRecordedMetric(event);
+    if (params) {
+      const replay = this.emitter[event].replay(ID, ...params);
+      // Non-passive listeners are replayed synchronously
+      this.checkForEmptyIndexer(event);
+      void replay.then(() => {
+        this.checkForEmptyIndexer(event);
+      });
+    }
+  }
+
+  /**
+   * Returns the arguments of the most recent occurrence of a metric. Plugin events
+   * are read from the MetricsQueue's record of plugin emissions and performance marks
+   * and measures are read from the Performance API's entry buffer
+   * * For internal use only
+   *
+   * @param {string} event - The name a performance.mark, measure, or external performance event
+   */
+  private getRecordedMetric(event: string) {
+    if (event in this.pluginHistory) {
+      return this.pluginHistory[event];
+    }
+    const { getEntriesByName } = this.performance;
+    if (!this.usePerformanceAPI || typeof getEntriesByName !== "function") {
+      return null;
+    }
+    const entries: PerformanceEntryList =
+      this.safetyWrap(() => getEntriesByName.call(this.performance, event)) ?? [];
+    if (!entries.length) {
+      return null;
+    }
+    return PerformanceEntries.toBustArguments(entries[entries.length - 1]);
+  }
+
+  /**
+   * Returns the most recent arguments of each event that was reached, in the order the events
+   * were reached. Metrics buffered by the Performance API before the MetricsQueue was initialized
+   * come first, ordered by the time they ended
+   * * For internal use only
+   *
+   * @param {string[]} events - The names of performance marks, measures, or external performance events
+   */
+  private getRecordedMetrics(events: string[]) {
+    const recorded: [event: string, params: Parameters<Listener>, order: number, end: number][] = [];
+    for (const event of new Set(events)) {
+      const params = this.getRecordedMetric(event);
+      if (params) {
+        const entry = params[0];
+        const end = (entry?.startTime ?? 0) + (entry?.duration ?? 0);
+        recorded.push([event, params, this.emissionOrder[event] ?? 0, end]);
       }
-    } else {
-      this.emitter[event] = new MetricIndexer();
     }
-    return this.emitter[event].add(callback, config);
+    return recorded
+      .sort((a, b) => a[2] - b[2] || a[3] - b[3])
+      .map(([event, params]): [string, Parameters<Listener>] => [event, params]);
   }
 
   /**
    * Clean up event listeners for events that can't be reached
    *
-   * @param {string} event - The name a performance.mark, measure, or external performance event
+   * @param {string | RegExp} event - The name a performance.mark, measure, or external performance event,
+   *    or the pattern a listener was registered on
    * @param {string} callbackID - The ID returned from MetricsQueue.addEventListener
    */
-  public static removeEventListener(event: string, callbackID: string) {
+  public removeEventListener(event: EventName<Events> | EventPattern, callbackID: string) {
+    if (PatternIndexer.isPattern(event)) {
+      const key = PatternIndexer.toKey(event);
+      if (key in this.patterns) {
+        this.patterns[key].remove(callbackID);
+        this.checkForEmptyIndexer(key, this.patterns);
+        return true;
+      }
+      return null;
+    }
     if (event in this.emitter) {
       this.emitter[event].remove(callbackID);
       this.checkForEmptyIndexer(event);
@@ -242,17 +1102,173 @@ export class MetricsQueue {
     return null;
   }
 
+  /**
+   * Register a single listener on a combination of events
+   *
+   * @param {CompositeCondition} condition - One of:
+   *    "all": invokes the callback once each of the events are reached, in any order
+   *    "any": invokes the callback once any one of the events is reached
+   *    "sequence": invokes the callback once each of the events are reached in the order provided
+   * @param {Function} callback - Receives a map of each event name to the arguments it was emitted with
+   * @param {CompositeListenerConfig} config - Supports the "passive", "keepAlive" and "sticky" options of
+   *    MetricsQueue.addEventListener. keepAlive composite listeners re-arm after each invocation
+   * @returns {string} ID - an identifier that can be used to remove the composite listener
+   */
+  public addCompositeListener(
+    condition: CompositeCondition<EventName<Events>>,
+    callback: CompositeListenerCallback,
+    config?: CompositeListenerConfig
+  ) {
+    if (this.isDev) {
+      this.validateCompositeListener(condition, callback);
+    }
+    const ID = this.IDs.nextID;
+    const composite = new CompositeListener(
+      ID,
+      this,
+      condition,
+      callback,
+      config,
+      this.reportError.bind(this)
+    );
+    try {
+      composite.subscribe();
+    } catch (error) {
+      // Leak detection can throw after some of the composite's listeners are registered
+      composite.remove();
+      throw error;
+    }
+    this.composites[ID] = composite;
+    if (config?.sticky ?? this.sticky) {
+      composite.replay(this.getRecordedMetrics(CompositeListener.getEvents(condition)));
+    }
+    return ID;
+  }
+
+  /**
+   * Remove a composite listener and each of the listeners it registered
+   *
+   * @param {string} ID - The ID returned from MetricsQueue.addCompositeListener
+   */
+  public removeCompositeListener(ID: string) {
+    if (ID in this.composites) {
+      this.composites[ID].remove();
+      delete this.composites[ID];
+      return true;
+    }
+    return null;
+  }
+  /**
+   * Define a measure spanning two marks. Once the start mark is followed by the end mark, the
+   * measure is created using the Performance API's default measure method and emitted to
+   * listeners as any other measure
+   *
+   * @param {string} name - the name of the measure to create
+   * @param {MeasureDefinition} definition - Accepts:
+   *    "start": the name of the mark starting the measure
+   *    "end": the name of the mark ending the measure
+   *    "repeat": whether to create a measure for each start and end pair reached. Defaults to false
+   *    "detail": the detail of the measure created
+   */
+  public defineMeasure(name: string, definition: MeasureDefinition) {
+    if (this.isDev) {
+      this.validateMeasure(name, definition);
+    }
+    this.derivedMeasures[name] = new DerivedMeasure(name, definition);
+  }
+
+  /**
+   * Remove a measure defined using MetricsQueue.defineMeasure
+   *
+   * @param {string} name - the name of the measure
+   */
+  public removeMeasure(name: string) {
+    if (name in this.derivedMeasures) {
+      delete this.derivedMeasures[name];
+      return true;
+    }
+    return null;
+  }
+
+  /**
+   * Returns a promise that resolves once a metric is reached
+   *
+   * @param {string} event - The name a performance.mark, measure, or external performance event
+   * @param {WaitForOptions} options - Accepts the "passive" and "sticky" options of addEventListener along with:
+   *    "timeout": the number of milliseconds to wait before rejecting
+   *    "signal": an AbortSignal that rejects the promise and removes the listener when aborted
+   * @returns {Promise<Parameters<Listener>>} - Resolves with the arguments an event listener would receive
+   */
+  public waitFor<Event extends EventName<Events>>(
+    event: Event,
+    { timeout, signal, ...config }: WaitForOptions = {}
+  ) {
+    return new Promise<EventArguments<Events, Event>>((resolve, reject) => {
+      if (signal?.aborted) {
+        return reject(this.abortError(event));
+      }
+      let settled = false;
+      let ID: string | null = null;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const settle = () => {
+        settled = true;
+        if (timer !== null) {
+          clearTimeout(timer);
+        }
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const cancel = (error: Error) => {
+        settle();
+        if (ID !== null) {
+          this.removeEventListener(event, ID);
+        }
+        reject(error);
+      };
+      const onAbort = () => cancel(this.abortError(event));
+      ID = this.addEventListener(
+        event,
+        (...args) => {
+          settle();
+          resolve(args);
+        },
+        { ...config, keepAlive: false }
+      );
+      // Sticky listeners may resolve during registration
+      if (settled) {
+        return;
+      }
+      signal?.addEventListener("abort", onAbort);
+      if (typeof timeout === "number") {
+        timer = setTimeout(() => {
+          cancel(new Error(`Timed out after ${timeout}ms waiting for "${event}"`));
+        }, timeout);
+      }
+    });
+  }
+
+  /**
+   * Creates the error used to reject MetricsQueue.waitFor when its signal aborts
+   * * For internal use only
+   *
+   * @param {string} event - The name a performance.mark, measure, or external performance event
+   */
+  private abortError(event: string) {
+    const error = new Error(`Stopped waiting for "${event}" - the operation was aborted`);
+    error.name = "AbortError";
+    return error;
+  }
+
   /**
    * When not running in production, provides developer feedback for error-prone arguments.
    * * For internal use only
    *
    * @param {ListenerArguments} args - inherited arguments from addEventListener
    */
-  private static validateListener(...args: ListenerArguments) {
+  private validateListener(...args: ListenerArguments) {
     if (!this.enabled) {
       throw new Error("Please initialize the Metrics Queue before registering performance listeners");
     }
-    const [event, callback] = args;
+    const [event, callback, config] = args;
     if (!event) {
       throw new Error(
         "To register an event listener, an event name must be provided. Events correspond to usages of the native Performance API or external performance libraries"
@@ -263,6 +1279,53 @@ export class MetricsQueue {
         "To register a listener, please provide a callback function to be executed once your metric is reached"
       );
     }
+    if (config?.batch && config.batch.size === undefined && config.batch.maxWait === undefined) {
+      throw new Error(
+        'Batched listeners require a "size" or a "maxWait" - without either, the batch would never be delivered'
+      );
+    }
+  }
+
+  /**
+   * When not running in production, provides developer feedback for malformed composite listeners.
+   * * For internal use only
+   *
+   * @param {CompositeCondition} condition - inherited from addCompositeListener
+   * @param {Function} callback - inherited from addCompositeListener
+   */
+  private validateCompositeListener(condition: CompositeCondition, callback: CompositeListenerCallback) {
+    if (!this.enabled) {
+      throw new Error("Please initialize the Metrics Queue before registering performance listeners");
+    }
+    const events = condition && typeof condition === "object" ? CompositeListener.getEvents(condition) : null;
+    if (!Array.isArray(events) || !events.length) {
+      throw new Error(
+        "To register a composite listener, please provide a condition with a non-empty list of 'all', 'any', or 'sequence' events"
+      );
+    }
+    if (typeof callback !== "function") {
+      throw new Error(
+        "To register a listener, please provide a callback function to be executed once your metric is reached"
+      );
+    }
+  }
+  /**
+   * When not running in production, provides developer feedback for malformed measure definitions.
+   * * For internal use only
+   *
+   * @param {string} name - inherited from defineMeasure
+   * @param {MeasureDefinition} definition - inherited from defineMeasure
+   */
+  private validateMeasure(name: string, definition: MeasureDefinition) {
+    if (!this.enabled) {
+      throw new Error("Please initialize the Metrics Queue before defining measures");
+    }
+    if (!name) {
+      throw new Error("To define a measure, please provide the name of the measure to create");
+    }
+    if (!definition || !definition.start || !definition.end) {
+      throw new Error(`To define "${name}", please provide the names of its 'start' and 'end' marks`);
+    }
   }
 
   /**
@@ -272,11 +1335,7 @@ export class MetricsQueue {
    * @param {any[]} args - arguments to apply to the function
    * @param {Function} catchFN - an optional handler for caught errors
    */
-  public static safetyWrap(
-    func: (...args: any[]) => any,
-    args: any[] = [],
-    catchFN?: (error: unknown) => any
-  ) {
+  public safetyWrap(func: (...args: any[]) => any, args: any[] = [], catchFN?: (error: unknown) => any) {
     try {
       return func(...args);
     } catch (e: unknown) {
@@ -294,16 +1353,56 @@ export class MetricsQueue {
    * Resets the MetricsQueue
    * * For use during testing only
    */
-  public static destroy() {
-    if (this.enabled && this.usePerformanceAPI && window.performance) {
-      performance.mark = this.mark as PerformanceMarkMethod;
-      performance.measure = this.measure as PerformanceMeasureMethod;
+  public destroy() {
+    this.teardownPlugins();
+    // Cancel pending debounced and batched listeners
+    [this.emitter, this.patterns].forEach((indexers) => {
+      for (const key in indexers) {
+        indexers[key].destroy();
+      }
+    });
+    this.vitals?.stop();
+    this.vitals = null;
+    this.reporter?.stop();
+    this.reporter = null;
+    this.tracer = null;
+    this.profiler = null;
+    this.recorder = null;
+    this.leaks?.destroy();
+    this.leaks = null;
+    this.onError = null;
+    if (this.observer) {
+      this.observer.disconnect();
+      this.observer = null;
+    } else if (this.enabled) {
+      this.restorePerformanceAPI();
     }
     this.enabled = false;
+    this.sticky = false;
     this.usePerformanceAPI = true;
+    this.performance = PerformanceBackends.noop;
     this.mark = null;
     this.measure = null;
     this.emitter = {};
+    this.patterns = {};
+    this.pluginHistory = {};
+    this.emissionOrder = {};
+    this.emissions = 0;
+    this.composites = {};
+    this.derivedMeasures = {};
+    this.budgets = null;
+    this.tiers?.stop();
+    this.tiers = null;
+    this.stats = {};
+    this.statsSamples = 100;
     this.isDev = process.env.NODE_ENV !== "production";
   }
 }
+
+/**
+ * The default MetricsQueue. It shares a global ID space with each MetricIndexer
+ * created outside of a MetricsQueue
+ */
+export const MetricsQueue = new MetricsQueueInstance(AutoIncrementingID);
+
+export type MetricsQueue = MetricsQueueInstance;
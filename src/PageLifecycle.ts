@@ -0,0 +1,31 @@
+/**
+ * Page Lifecycle
+ *
+ * Subscribes to the page lifecycle events metrics are finalized and sent on. Pages are
+ * hidden when they're backgrounded, closed or navigated away from, which is the last
+ * reliable opportunity to report before the page may be discarded.
+ */
+export class PageLifecycle {
+  /**
+   * Invoke a callback each time the page is hidden or unloaded
+   *
+   * @param {Function} callback - the callback to invoke
+   * @returns {Function} - removes the callback. Does nothing outside of a browser
+   */
+  public static onHidden(callback: () => void) {
+    if (typeof document === "undefined") {
+      return () => {};
+    }
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        callback();
+      }
+    };
+    document.addEventListener("visibilitychange", onVisibilityChange, true);
+    window.addEventListener("pagehide", callback, true);
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibilityChange, true);
+      window.removeEventListener("pagehide", callback, true);
+    };
+  }
+}
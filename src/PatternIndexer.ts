@@ -0,0 +1,104 @@
+import { Conditions } from "./Conditions";
+import { MetricIndexer } from "./MetricIndexer";
+import type { Listener, EventPattern, ListenerConfig, MetricIndexerOptions, PatternListener } from "./types";
+
+/**
+ * Pattern Indexer
+ *
+ * A MetricIndexer for listeners registered on a RegExp or a glob such as "checkout:step:*"
+ * rather than the name of a single event. Pattern listeners receive the name of the event
+ * reached followed by the arguments an event listener would receive.
+ */
+export class PatternIndexer extends MetricIndexer {
+  private matcher: RegExp;
+
+  /**
+   * @param {EventPattern} pattern - a RegExp or a glob in which "*" matches any sequence of characters
+   * @param {MetricIndexerOptions} options - forwarded to the MetricIndexer
+   */
+  constructor(pattern: EventPattern, options?: MetricIndexerOptions) {
+    super(PatternIndexer.toKey(pattern), options);
+    this.matcher = typeof pattern === "string" ? PatternIndexer.toRegExp(pattern) : pattern;
+  }
+
+  /**
+   * Returns true if an event name should be treated as a pattern
+   *
+   * @param {string | RegExp} event - an event name or pattern passed to MetricsQueue.addEventListener
+   */
+  public static isPattern(event: string | RegExp): event is EventPattern {
+    return event instanceof RegExp || (typeof event === "string" && event.includes("*"));
+  }
+
+  /**
+   * Returns the key a pattern is indexed under
+   *
+   * @param {EventPattern} pattern - a RegExp or a glob
+   */
+  public static toKey(pattern: EventPattern) {
+    return typeof pattern === "string" ? pattern : pattern.toString();
+  }
+
+  /**
+   * Compile a glob into a RegExp matching the entire event name
+   *
+   * @param {string} glob - an event name in which "*" matches any sequence of characters
+   */
+  public static toRegExp(glob: string) {
+    const source = glob
+      .split("*")
+      .map((segment) => segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    return new RegExp(`^${source}$`);
+  }
+
+  /**
+   * Returns true if an event name matches the pattern
+   *
+   * @param {string} event - the name of a performance mark, measure, or external performance event
+   */
+  public matches(event: string) {
+    this.matcher.lastIndex = 0;
+    return this.matcher.test(event);
+  }
+
+  /**
+   * Returns the name of the event reached rather than the pattern, so that errors thrown
+   * by pattern listeners are attributed to the concrete event. Batches are attributed to
+   * the event of their latest occurrence
+   *
+   * @param {Parameters<Listener>} params - the event name followed by the arguments forwarded to the listener
+   */
+  protected eventOf(params: Parameters<Listener>): string | undefined {
+    const [event] = params as unknown[];
+    if (Array.isArray(event)) {
+      const latest = event[event.length - 1];
+      return Array.isArray(latest) && typeof latest[0] === "string" ? latest[0] : undefined;
+    }
+    return typeof event === "string" ? event : undefined;
+  }
+
+  /**
+   * Add and index a pattern listener. Listener conditions are evaluated against the
+   * arguments following the event name
+   *
+   * @param {PatternListener} listener - a callback receiving the event name and its arguments
+   * @param {ListenerConfig} config - the listener's config
+   * @param {string} callSite - an optional stack trace of the listener's registration
+   * @returns {string} ID - an identifier that can be used to remove the listener
+   */
+  public add(listener: PatternListener | Listener, config?: ListenerConfig, callSite?: string) {
+    const when = config?.when;
+    if (!when) {
+      return super.add(listener as Listener, config, callSite);
+    }
+    return super.add(
+      listener as Listener,
+      {
+        ...config,
+        when: (...args: any[]) => Conditions.matches(when, args.slice(1) as Parameters<Listener>),
+      },
+      callSite
+    );
+  }
+}
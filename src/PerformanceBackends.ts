@@ -0,0 +1,52 @@
+import type { PerformanceBackend } from "./types";
+
+/**
+ * Performance Backends
+ *
+ * Resolves the implementation of the Performance API the MetricsQueue subscribes to.
+ * Browsers and modern versions of Node.js expose a global performance object. In other
+ * environments, Node's "perf_hooks" performance object (or any object implementing
+ * "now", "mark" and "measure") can be provided to MetricsQueue.init. When no Performance
+ * API is available, a no-op backend allows the MetricsQueue to operate using plugins alone.
+ */
+export class PerformanceBackends {
+  public static readonly noop: PerformanceBackend = {
+    now: () => Date.now(),
+    mark: () => null,
+    measure: () => null,
+    getEntriesByName: () => [],
+  };
+
+  /**
+   * Returns the provided backend, the global Performance API, or the no-op backend
+   *
+   * @param {PerformanceBackend | undefined} backend - an optional Performance API implementation
+   */
+  public static resolve(backend?: PerformanceBackend): PerformanceBackend {
+    if (backend) {
+      return backend;
+    }
+    if (typeof performance !== "undefined" && typeof performance?.mark === "function") {
+      return performance;
+    }
+    return this.noop;
+  }
+
+  /**
+   * Returns the time, in milliseconds since the epoch, that a backend's clock started at
+   *
+   * @param {PerformanceBackend} backend - a Performance API implementation
+   */
+  public static timeOrigin(backend: PerformanceBackend) {
+    return typeof backend.timeOrigin === "number" ? backend.timeOrigin : Date.now() - backend.now();
+  }
+
+  /**
+   * Returns true if a backend is capable of recording marks and measures
+   *
+   * @param {PerformanceBackend} backend - a Performance API implementation
+   */
+  public static isOperable(backend: PerformanceBackend) {
+    return backend !== this.noop;
+  }
+}
@@ -0,0 +1,59 @@
+import type {
+  BustPluginMetric,
+  BustPerformanceMark,
+  BustPerformanceMeasure,
+  PerformanceMarkParameters,
+  PerformanceMeasureParameters,
+} from "./types";
+
+/**
+ * Performance Entries
+ *
+ * Translates entries recorded by the Performance API into the arguments
+ * MetricIndexer.bust forwards to listeners. This allows metrics that were never
+ * seen by the MetricsQueue's middleware to be emitted as if they had been.
+ */
+export class PerformanceEntries {
+  /**
+   * Reconstruct the parameters of the performance.mark call that created an entry
+   *
+   * @param {PerformanceMark} entry - a mark returned by the Performance API
+   * @returns {PerformanceMarkParameters}
+   */
+  public static toMarkParameters(entry: PerformanceMark): PerformanceMarkParameters {
+    return [entry.name, { detail: entry.detail, startTime: entry.startTime }];
+  }
+
+  /**
+   * Reconstruct the parameters of the performance.measure call that created an entry
+   *
+   * @param {PerformanceMeasure} entry - a measure returned by the Performance API
+   * @returns {PerformanceMeasureParameters}
+   */
+  public static toMeasureParameters(entry: PerformanceMeasure): PerformanceMeasureParameters {
+    return [
+      entry.name,
+      { detail: entry.detail, start: entry.startTime, duration: entry.duration },
+      undefined,
+    ];
+  }
+
+  /**
+   * Convert a performance entry to the arguments received by event listeners
+   *
+   * @param {PerformanceEntry} entry - any entry returned by the Performance API
+   * @returns {BustPerformanceMark | BustPerformanceMeasure | BustPluginMetric}
+   */
+  public static toBustArguments(
+    entry: PerformanceEntry
+  ): BustPerformanceMark | BustPerformanceMeasure | BustPluginMetric {
+    switch (entry.entryType) {
+      case "mark":
+        return [entry as PerformanceMark, ...this.toMarkParameters(entry as PerformanceMark)];
+      case "measure":
+        return [entry as PerformanceMeasure, ...this.toMeasureParameters(entry as PerformanceMeasure)];
+      default:
+        return [entry];
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import type { ObserverConfig } from "./types";
+
+/**
+ * Performance Entry Observer
+ *
+ * Subscribes to the Performance API using a PerformanceObserver rather than wrapping
+ * performance.mark and performance.measure. This allows the MetricsQueue to receive
+ * entries created before it was initialized, entries created by code holding a reference
+ * to the original Performance API methods, and entries generated by the browser.
+ */
+export class PerformanceEntryObserver {
+  public static readonly entryTypes = [
+    "mark",
+    "measure",
+    "paint",
+    "navigation",
+    "resource",
+    "longtask",
+    "largest-contentful-paint",
+  ];
+  private observer: PerformanceObserver | null = null;
+  private callback: (entry: PerformanceEntry) => void;
+
+  constructor(callback: (entry: PerformanceEntry) => void) {
+    this.callback = callback;
+  }
+
+  /**
+   * Returns true if PerformanceObservers are available in the current environment
+   */
+  public static get supported() {
+    return typeof PerformanceObserver === "function";
+  }
+
+  /**
+   * Begin observing performance entries. Entry types the browser does not support are ignored
+   *
+   * @param {ObserverConfig} config - the entry types to observe, whether to receive buffered entries, and the
+   *                                  minimum duration of observed event timing entries
+   * @returns {boolean} - whether the observer was created
+   */
+  public observe({
+    entryTypes = PerformanceEntryObserver.entryTypes,
+    buffered = true,
+    durationThreshold,
+  }: ObserverConfig = {}) {
+    if (!PerformanceEntryObserver.supported) {
+      return false;
+    }
+    this.disconnect();
+    const { supportedEntryTypes } = PerformanceObserver;
+    this.observer = new PerformanceObserver((list) => {
+      list.getEntries().forEach(this.callback);
+    });
+    entryTypes.forEach((type) => {
+      if (supportedEntryTypes && !supportedEntryTypes.includes(type)) {
+        return;
+      }
+      try {
+        this.observer?.observe(
+          durationThreshold === undefined
+            ? { type, buffered }
+            : ({ type, buffered, durationThreshold } as PerformanceObserverInit)
+        );
+      } catch (e) {
+        // Older implementations throw on unsupported entry types
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Stop observing performance entries
+   */
+  public disconnect() {
+    this.observer?.disconnect();
+    this.observer = null;
+  }
+}
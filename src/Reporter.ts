@@ -0,0 +1,180 @@
+import { MetricValue } from "./MetricValue";
+import { PageLifecycle } from "./PageLifecycle";
+import type { Listener, Transport, ErrorHandler, ReportedMetric, ReporterConfig } from "./types";
+
+/**
+ * Reporter
+ *
+ * Collects the metrics flowing through the MetricsQueue and ships them in batches using
+ * a transport. Batches are sent once they reach their maximum size or age, and whenever
+ * the page is hidden or unloaded. Batches that fail to send are retried with an
+ * exponential backoff before their failure is reported to the MetricsQueue's error handler.
+ */
+export class Reporter {
+  private transport: Transport;
+  private maxBatchSize: number;
+  private maxBatchAge: number;
+  private retries: number;
+  private retryDelay: number;
+  private filter: ReporterConfig["filter"];
+  private onError: ErrorHandler;
+  private queue: ReportedMetric[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private retryTimers = new Set<ReturnType<typeof setTimeout>>();
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * @param {ReporterConfig} config - the reporter's transport, batching and retry options
+   * @param {ErrorHandler} onError - receives errors from batches that fail to send after each retry
+   */
+  constructor(
+    {
+      transport,
+      maxBatchSize = 20,
+      maxBatchAge = 5000,
+      retries = 3,
+      retryDelay = 1000,
+      filter,
+    }: ReporterConfig,
+    onError: ErrorHandler
+  ) {
+    this.transport = transport;
+    this.maxBatchSize = Math.max(1, maxBatchSize);
+    this.maxBatchAge = maxBatchAge;
+    this.retries = retries;
+    this.retryDelay = retryDelay;
+    this.filter = filter;
+    this.onError = onError;
+  }
+
+  /**
+   * Convert the arguments forwarded to listeners into a serializable metric
+   *
+   * @param {string} name - the name of a performance mark, measure, or plugin event
+   * @param {Parameters<Listener>} params - the arguments forwarded by MetricIndexer.bust
+   */
+  public static toReportedMetric(name: string, params: Parameters<Listener>): ReportedMetric {
+    const [metric] = params;
+    const isEntry = !!metric && typeof metric === "object" && typeof metric.entryType === "string";
+    const reported: ReportedMetric = {
+      name,
+      type: isEntry ? metric.entryType : "plugin",
+      value: MetricValue.from(metric),
+      timestamp: Date.now(),
+    };
+    if (metric && typeof metric === "object" && metric.detail != null) {
+      reported.detail = metric.detail;
+    }
+    return reported;
+  }
+
+  /**
+   * Flush the reporter's batches when the page is hidden or unloaded
+   */
+  public start() {
+    this.unsubscribe?.();
+    this.unsubscribe = PageLifecycle.onHidden(this.onHidden);
+  }
+
+  /**
+   * Stop reporting, discarding unsent metrics and pending retries
+   */
+  public stop() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.clearTimer();
+    this.retryTimers.forEach((timer) => clearTimeout(timer));
+    this.retryTimers.clear();
+    this.queue = [];
+  }
+
+  /**
+   * Add a metric to the current batch. The batch is sent once it reaches its maximum size,
+   * or once its first metric reaches the batch's maximum age
+   *
+   * @param {string} name - the name of a performance mark, measure, or plugin event
+   * @param {Parameters<Listener>} params - the arguments forwarded by MetricIndexer.bust
+   */
+  public collect(name: string, params: Parameters<Listener>) {
+    const metric = Reporter.toReportedMetric(name, params);
+    if (this.filter && !this.filter(metric)) {
+      return;
+    }
+    this.queue.push(metric);
+    if (this.queue.length >= this.maxBatchSize) {
+      void this.flush();
+    } else if (this.timer === null) {
+      this.timer = setTimeout(() => void this.flush(), this.maxBatchAge);
+    }
+  }
+
+  /**
+   * Send each collected metric immediately
+   *
+   * @returns {Promise<void>} - resolves once each batch is sent or has exhausted its retries
+   */
+  public async flush() {
+    this.clearTimer();
+    const sends: Promise<void>[] = [];
+    while (this.queue.length) {
+      sends.push(this.send(this.queue.splice(0, this.maxBatchSize)));
+    }
+    await Promise.all(sends);
+  }
+
+  /**
+   * The number of metrics waiting to be sent
+   */
+  get pending() {
+    return this.queue.length;
+  }
+
+  /**
+   * Send a batch using the transport, retrying failures with an exponential backoff
+   * * For internal use only
+   *
+   * @param {ReportedMetric[]} batch - the metrics to send
+   * @param {number} attempt - the number of times the batch has failed to send
+   */
+  private async send(batch: ReportedMetric[], attempt = 0): Promise<void> {
+    let failure: unknown = null;
+    try {
+      if ((await this.transport(batch)) === false) {
+        failure = new Error(`The transport failed to send a batch of ${batch.length} metrics`);
+      }
+    } catch (error) {
+      failure = error;
+    }
+    if (failure === null) {
+      return;
+    }
+    if (attempt < this.retries) {
+      return new Promise((resolve) => {
+        const timer = setTimeout(() => {
+          this.retryTimers.delete(timer);
+          resolve(this.send(batch, attempt + 1));
+        }, this.retryDelay * 2 ** attempt);
+        this.retryTimers.add(timer);
+      });
+    }
+    this.onError(failure, { event: batch[0].name, phase: "transport" });
+  }
+
+  /**
+   * Clear the timer sending the current batch
+   * * For internal use only
+   */
+  private clearTimer() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send the collected metrics before the page may be discarded
+   */
+  private onHidden = () => {
+    void this.flush();
+  };
+}
@@ -0,0 +1,106 @@
+import type { MetricStats, BudgetPercentile } from "./types";
+
+/**
+ * Rolling Window
+ *
+ * Retains a metric's most recent values and aggregates them. The window is bounded
+ * so that metrics reached many times (route transitions, list renders) hold a
+ * constant amount of memory while their aggregates follow recent trends.
+ */
+export class RollingWindow {
+  public static readonly percentiles: BudgetPercentile[] = ["p50", "p75", "p90", "p95", "p99"];
+  private values: number[] = [];
+  private size: number;
+  private count = 0;
+  private last = 0;
+
+  /**
+   * @param {number} size - the number of values to retain. Defaults to 100
+   */
+  constructor(size = 100) {
+    this.size = Math.max(1, size);
+  }
+
+  /**
+   * Record a value, evicting the oldest value once the window is full
+   *
+   * @param {number} value - the value of a metric's latest occurrence
+   */
+  public add(value: number) {
+    this.count++;
+    this.last = value;
+    this.values.push(value);
+    if (this.values.length > this.size) {
+      this.values.shift();
+    }
+    return this;
+  }
+
+  /**
+   * The number of values currently retained
+   */
+  get sampleSize() {
+    return this.values.length;
+  }
+
+  /**
+   * Returns the nearest-rank percentile of the retained values
+   *
+   * @param {number} percentile - a number between 0 and 100
+   */
+  public percentile(percentile: number) {
+    return RollingWindow.percentile(this.values, percentile);
+  }
+
+  /**
+   * Returns the aggregates of the retained values or null if no values were recorded
+   */
+  public toStats(): MetricStats | null {
+    if (!this.values.length) {
+      return null;
+    }
+    const sorted = [...this.values].sort((a, b) => a - b);
+    const stats: MetricStats = {
+      count: this.count,
+      sampleSize: sorted.length,
+      last: this.last,
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+      p50: 0,
+      p75: 0,
+      p90: 0,
+      p95: 0,
+      p99: 0,
+    };
+    RollingWindow.percentiles.forEach((key) => {
+      stats[key] = RollingWindow.nearestRank(sorted, parseInt(key.slice(1)));
+    });
+    return stats;
+  }
+
+  /**
+   * Returns the nearest-rank percentile of a list of values
+   *
+   * @param {number[]} values - a non-empty list of values
+   * @param {number} percentile - a number between 0 and 100
+   */
+  public static percentile(values: number[], percentile: number) {
+    return this.nearestRank(
+      [...values].sort((a, b) => a - b),
+      percentile
+    );
+  }
+
+  /**
+   * Returns the nearest-rank percentile of a sorted list of values
+   * * For internal use only
+   *
+   * @param {number[]} sorted - a non-empty list of values in ascending order
+   * @param {number} percentile - a number between 0 and 100
+   */
+  private static nearestRank(sorted: number[], percentile: number) {
+    const rank = Math.ceil((percentile / 100) * sorted.length);
+    return sorted[Math.max(0, rank - 1)];
+  }
+}
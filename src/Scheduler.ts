@@ -0,0 +1,88 @@
+import type { Schedule, ScheduleOptions, TaskPriority } from "./types";
+
+type SchedulingScope = typeof globalThis & {
+  requestIdleCallback?: (callback: () => void, options?: { timeout?: number }) => number;
+  scheduler?: { postTask: (callback: () => void, options?: { priority?: TaskPriority }) => Promise<void> };
+};
+
+/**
+ * Scheduler
+ *
+ * Defers the execution of listeners and plugin events using a scheduling strategy:
+ *
+ * "sync": executes immediately
+ * "microtask": executes once the current callstack clears, before the browser renders
+ * "animationFrame": executes before the browser's next repaint
+ * "idle": executes once the browser is idle, or once the "timeout" elapses
+ * "user-blocking", "user-visible", "background": executes using scheduler.postTask's priorities
+ *
+ * APIs are read from the global scope, so Web Workers use the ones they expose. When an API
+ * is missing, strategies fall back to setTimeout. The "background" priority falls back to
+ * the "idle" strategy.
+ */
+export class Scheduler {
+  public static readonly priorities: TaskPriority[] = ["user-blocking", "user-visible", "background"];
+
+  /**
+   * Returns the strategy and timeout of a schedule
+   *
+   * @param {Schedule} schedule - a scheduling strategy or an object containing one
+   */
+  public static toOptions(schedule: Schedule): ScheduleOptions {
+    return typeof schedule === "string" ? { strategy: schedule } : schedule;
+  }
+
+  /**
+   * Execute a task using a scheduling strategy
+   *
+   * @param {Schedule} schedule - a scheduling strategy or an object containing one
+   * @param {Function} task - the task to execute
+   * @returns {Promise} - resolves with the task's return value once executed
+   */
+  public static async run<T>(schedule: Schedule, task: () => T) {
+    const { strategy, timeout } = this.toOptions(schedule);
+    if (strategy === "microtask") {
+      await Promise.resolve();
+    } else if (strategy !== "sync") {
+      await this.defer(strategy, timeout);
+    }
+    return task();
+  }
+
+  /**
+   * Returns a promise that resolves when a deferred strategy's callback is invoked
+   * * For internal use only
+   *
+   * @param {ScheduleOptions["strategy"]} strategy - "animationFrame", "idle", or a postTask priority
+   * @param {number | undefined} timeout - the maximum number of milliseconds to wait for idle time
+   */
+  private static defer(strategy: ScheduleOptions["strategy"], timeout?: number) {
+    const scope = globalThis as SchedulingScope;
+    return new Promise<void>((resolve) => {
+      const done = () => resolve();
+      if (strategy === "animationFrame") {
+        if (typeof scope.requestAnimationFrame === "function") {
+          scope.requestAnimationFrame(done);
+        } else {
+          setTimeout(done, 16);
+        }
+        return;
+      }
+      if (this.priorities.includes(strategy as TaskPriority)) {
+        if (typeof scope.scheduler?.postTask === "function") {
+          scope.scheduler.postTask(done, { priority: strategy as TaskPriority }).catch(done);
+          return;
+        }
+        if (strategy !== "background") {
+          setTimeout(done, 0);
+          return;
+        }
+      }
+      if (typeof scope.requestIdleCallback === "function") {
+        scope.requestIdleCallback(done, timeout === undefined ? undefined : { timeout });
+      } else {
+        setTimeout(done, 1);
+      }
+    });
+  }
+}
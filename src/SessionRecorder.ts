@@ -0,0 +1,131 @@
+import { MetricArguments } from "./MetricArguments";
+import type { RecordedEmission, RecordedSession, RecordingConfig, ReplayOptions } from "./types";
+
+/**
+ * Session Recorder
+ *
+ * Records each mark, measure and plugin metric passing through a MetricsQueue along with
+ * its serialized arguments and the time it was reached relative to the start of the recording.
+ * Recorded sessions are plain JSON, and can be replayed into a fresh MetricsQueue using
+ * their original timing or a compressed one - driving your listeners with real field data
+ * during tests and debugging.
+ */
+export class SessionRecorder {
+  public static readonly version = 1;
+  private now: () => number;
+  private startTime: number;
+  private startedAt: number;
+  private maxEmissions: number;
+  private emissions: RecordedEmission[] = [];
+
+  /**
+   * @param {Function} now - the clock emissions are timed by
+   * @param {RecordingConfig} config - Accepts:
+   *    "maxEmissions": the number of emissions after which recording stops. Defaults to 1000
+   */
+  constructor(now: () => number, { maxEmissions = 1000 }: RecordingConfig = {}) {
+    this.now = now;
+    this.startTime = now();
+    this.startedAt = Date.now();
+    this.maxEmissions = maxEmissions;
+  }
+
+  /**
+   * Record an emission. Emissions beyond the recorder's "maxEmissions" are ignored
+   *
+   * @param {RecordedEmission["type"]} type - "mark", "measure" or "plugin"
+   * @param {string} name - the name of the metric
+   * @param {any[]} args - the arguments of the emission
+   */
+  public record(type: RecordedEmission["type"], name: string, args: any[]) {
+    if (this.emissions.length >= this.maxEmissions) {
+      return;
+    }
+    this.emissions.push({
+      type,
+      name,
+      args: MetricArguments.serialize(args),
+      time: this.now() - this.startTime,
+    });
+  }
+
+  /**
+   * Returns the recorded session
+   */
+  public toJSON(): RecordedSession {
+    return {
+      version: SessionRecorder.version,
+      startedAt: this.startedAt,
+      emissions: this.emissions.map((emission) => ({ ...emission })),
+    };
+  }
+
+  /**
+   * Returns true if a value is a session recorded by a SessionRecorder
+   *
+   * @param {unknown} session - a parsed session
+   */
+  public static isSession(session: unknown): session is RecordedSession {
+    return (
+      !!session &&
+      typeof session === "object" &&
+      (session as RecordedSession).version === SessionRecorder.version &&
+      Array.isArray((session as RecordedSession).emissions)
+    );
+  }
+
+  /**
+   * Invoke a callback with each of a session's emissions in order, waiting the time elapsed
+   * between emissions divided by the "speed" of the replay
+   *
+   * @param {RecordedSession} session - a session recorded by a SessionRecorder
+   * @param {Function} emit - receives each emission and returns once it's been emitted
+   * @param {ReplayOptions} options - Accepts:
+   *    "speed": the factor timing is compressed by. Use Infinity to replay without waiting. Defaults to 1
+   *    "maxGap": the maximum number of milliseconds to wait between emissions. Defaults to Infinity
+   *    "signal": an AbortSignal that stops the replay when aborted
+   */
+  public static async replay(
+    session: RecordedSession,
+    emit: (emission: RecordedEmission) => Promise<void>,
+    { speed = 1, maxGap = Infinity, signal }: ReplayOptions = {}
+  ) {
+    let previous = 0;
+    for (const emission of session.emissions) {
+      const gap = Math.min(Math.max(emission.time - previous, 0) / speed, maxGap);
+      previous = emission.time;
+      if (gap > 0) {
+        await this.wait(gap, signal);
+      }
+      if (signal?.aborted) {
+        return;
+      }
+      await emit(emission);
+    }
+  }
+
+  /**
+   * Returns a promise resolving once the number of milliseconds elapses, or as soon as
+   * the signal aborts
+   * * For internal use only
+   *
+   * @param {number} milliseconds - the number of milliseconds to wait
+   * @param {AbortSignal | undefined} signal - an AbortSignal that ends the wait when aborted
+   */
+  private static wait(milliseconds: number, signal?: AbortSignal) {
+    return new Promise<void>((resolve) => {
+      if (signal?.aborted) {
+        return resolve();
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, milliseconds);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,190 @@
+import { MetricValue } from "./MetricValue";
+import type { HashTable, Listener, PerformanceTier, TierChange, TierConfig, TierRule } from "./types";
+
+/**
+ * Tier Classifier
+ *
+ * Classifies the user's experience as "fast", "average" or "slow" using weighted rules.
+ * Each rule scores a metric between 0 (at or beyond its "slow" threshold) and 1 (at or
+ * within its "fast" threshold), and the weighted average of the scores resolves to a tier.
+ * The tier is re-evaluated as metrics arrive until every rule has been observed or the
+ * classifier's deadline elapses - at which point a best-effort tier is committed.
+ */
+export class TierClassifier {
+  public static readonly event = "tier-change";
+  private rules: TierRule[];
+  private deadline?: number;
+  private cutoffs: Required<NonNullable<TierConfig["cutoffs"]>>;
+  private fallback: PerformanceTier;
+  private onChange: (change: TierChange) => void;
+  private values: HashTable<number> = {};
+  private current: PerformanceTier | null = null;
+  private committed = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param {TierConfig} config - Accepts:
+   *    "rules": the metrics to classify by, along with their "fast" and "slow" thresholds, their
+   *             "weight" (defaults to 1) and how their values are aggregated (defaults to "last")
+   *    "deadline": the number of milliseconds after which a best-effort tier is committed
+   *    "cutoffs": the scores at or above which the tier is "fast" (defaults to 0.67) and at or
+   *               below which the tier is "slow" (defaults to 0.33)
+   *    "fallback": the tier committed when no metric is observed by the deadline. Defaults to "average"
+   * @param {Function} onChange - receives each change of tier
+   */
+  constructor(
+    { rules, deadline, cutoffs = {}, fallback = "average" }: TierConfig,
+    onChange: (change: TierChange) => void
+  ) {
+    this.rules = rules;
+    this.deadline = deadline;
+    this.cutoffs = { fast: 0.67, slow: 0.33, ...cutoffs };
+    this.fallback = fallback;
+    this.onChange = onChange;
+    rules.forEach(({ metric, aggregate }) => {
+      // Counts start at zero - the absence of a long task is a fast signal
+      if (aggregate === "count") {
+        this.values[metric] = 0;
+      }
+    });
+  }
+
+  /**
+   * Start the deadline after which a best-effort tier is committed
+   */
+  public start() {
+    if (typeof this.deadline === "number" && !this.committed && this.timer === null) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.commit();
+      }, this.deadline);
+    }
+  }
+
+  /**
+   * Stop the deadline without committing a tier
+   */
+  public stop() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * The current tier. null until a metric is classified
+   */
+  public get tier() {
+    return this.current;
+  }
+
+  /**
+   * Update the rules classifying a metric and re-evaluate the tier
+   *
+   * @param {string} metric - the name of a performance mark, measure, or plugin event
+   * @param {Parameters<Listener>} params - the arguments forwarded by MetricIndexer.bust
+   */
+  public observe(metric: string, params: Parameters<Listener>) {
+    if (this.committed) {
+      return;
+    }
+    let observed = false;
+    this.rules.forEach(({ metric: ruleMetric, aggregate = "last" }) => {
+      if (ruleMetric !== metric) {
+        return;
+      }
+      if (aggregate === "count") {
+        this.values[metric] += 1;
+        observed = true;
+        return;
+      }
+      const value = MetricValue.from(params[0]);
+      if (value === null) {
+        return;
+      }
+      this.values[metric] =
+        aggregate === "max" && metric in this.values ? Math.max(this.values[metric], value) : value;
+      observed = true;
+    });
+    if (!observed) {
+      return;
+    }
+    if (this.rules.every(({ metric, aggregate }) => aggregate !== "count" && metric in this.values)) {
+      return this.commit();
+    }
+    this.update(false);
+  }
+
+  /**
+   * Commit the current tier, or the fallback tier when no metric has been classified
+   */
+  public commit() {
+    if (this.committed) {
+      return;
+    }
+    this.stop();
+    this.committed = true;
+    this.update(true);
+  }
+
+  /**
+   * Returns the weighted average of each rule's score, or null when no rule has been observed
+   */
+  public score() {
+    let total = 0;
+    let weights = 0;
+    this.rules.forEach(({ metric, fast, slow, weight = 1 }) => {
+      if (!(metric in this.values)) {
+        return;
+      }
+      total += TierClassifier.scoreRule(this.values[metric], fast, slow) * weight;
+      weights += weight;
+    });
+    return weights ? total / weights : null;
+  }
+
+  /**
+   * Returns the score of a value between a rule's "slow" (0) and "fast" (1) thresholds. Thresholds
+   * can be ascending, for metrics where lower values are faster, or descending
+   *
+   * @param {number} value - the aggregated value of a metric
+   * @param {number} fast - the value at or within which the metric is fast
+   * @param {number} slow - the value at or beyond which the metric is slow
+   */
+  public static scoreRule(value: number, fast: number, slow: number) {
+    if (fast === slow) {
+      return value <= fast ? 1 : 0;
+    }
+    return Math.min(Math.max((value - slow) / (fast - slow), 0), 1);
+  }
+
+  /**
+   * Resolve the tier of the current score, notifying the MetricsQueue when it changes or is committed
+   * * For internal use only
+   *
+   * @param {boolean} committed - whether the tier is final
+   */
+  private update(committed: boolean) {
+    const score = this.score();
+    const tier = score === null ? (committed ? this.fallback : null) : this.toTier(score);
+    if (tier === null || (tier === this.current && !committed)) {
+      return;
+    }
+    const previous = this.current;
+    this.current = tier;
+    this.onChange({ tier, previous, score, committed, values: { ...this.values } });
+  }
+
+  /**
+   * Returns the tier of a score
+   * * For internal use only
+   *
+   * @param {number} score - a number between 0 and 1
+   */
+  private toTier(score: number): PerformanceTier {
+    if (score >= this.cutoffs.fast) {
+      return "fast";
+    }
+    return score <= this.cutoffs.slow ? "slow" : "average";
+  }
+}
@@ -0,0 +1,57 @@
+import type { ReportedMetric, Transport, MemoryTransport } from "./types";
+
+/**
+ * Transports
+ *
+ * Factories for the transports a Reporter ships batches of metrics with. A transport
+ * receives a batch of metrics and signals failure by throwing, rejecting, or returning
+ * false. Any function satisfying this contract can be used as a custom transport.
+ */
+export class Transports {
+  /**
+   * Send batches using navigator.sendBeacon. Beacons are queued by the browser and
+   * survive the page being unloaded
+   *
+   * @param {string} url - the endpoint receiving batches as JSON
+   */
+  public static beacon(url: string): Transport {
+    return (batch) => {
+      if (typeof navigator === "undefined" || typeof navigator.sendBeacon !== "function") {
+        return false;
+      }
+      return navigator.sendBeacon(url, JSON.stringify(batch));
+    };
+  }
+
+  /**
+   * Send batches using fetch. Requests are sent with "keepalive" so that they may
+   * outlive the page
+   *
+   * @param {string} url - the endpoint receiving batches as JSON
+   * @param {RequestInit} init - options merged into each request
+   */
+  public static fetch(url: string, init: RequestInit = {}): Transport {
+    return async (batch) => {
+      const response = await fetch(url, {
+        method: "POST",
+        keepalive: true,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(batch),
+        ...init,
+      });
+      return response.ok;
+    };
+  }
+
+  /**
+   * Retain batches in memory. Useful for testing and for inspecting reports during development
+   */
+  public static memory(): MemoryTransport {
+    const batches: ReportedMetric[][] = [];
+    const transport = (batch: ReportedMetric[]) => {
+      batches.push(batch);
+      return true;
+    };
+    return Object.assign(transport, { batches });
+  }
+}
@@ -0,0 +1,239 @@
+import { PerformanceEntryObserver } from "./PerformanceEntryObserver";
+import { PageLifecycle } from "./PageLifecycle";
+import type { WebVital, WebVitalName, WebVitalRating } from "./types";
+
+type LayoutShift = PerformanceEntry & { value: number; hadRecentInput: boolean };
+
+type EventTiming = PerformanceEntry & { interactionId?: number };
+
+type NavigationTiming = PerformanceEntry & { responseStart: number; activationStart?: number };
+
+/**
+ * Web Vitals
+ *
+ * Derives the Core Web Vitals from performance entries and emits them through the MetricsQueue
+ * using the reserved event names "LCP", "CLS", "INP", "FCP" and "TTFB". FCP and TTFB are emitted
+ * as soon as their entries are observed. LCP is emitted once the user first interacts with the page
+ * or the page is hidden, while CLS and INP are emitted each time the page is hidden and their values
+ * have changed.
+ */
+export class WebVitals {
+  public static readonly events: WebVitalName[] = ["LCP", "CLS", "INP", "FCP", "TTFB"];
+  public static readonly entryTypes = [
+    "paint",
+    "navigation",
+    "largest-contentful-paint",
+    "layout-shift",
+    "first-input",
+    "event",
+  ];
+  public static readonly thresholds: Record<WebVitalName, [good: number, poor: number]> = {
+    LCP: [2500, 4000],
+    CLS: [0.1, 0.25],
+    INP: [200, 500],
+    FCP: [1800, 3000],
+    TTFB: [800, 1800],
+  };
+  public static readonly maxInteractions = 10;
+  private reported: Partial<Record<WebVitalName, number>> = {};
+  private observer: PerformanceEntryObserver;
+  private emit: (vital: WebVital) => void;
+  private largestContentfulPaint: PerformanceEntry | null = null;
+  private layoutShifts = { value: 0, entries: [] as LayoutShift[] };
+  private sessionWindow = { value: 0, entries: [] as LayoutShift[] };
+  private interactions: { ID: number; latency: number; entries: EventTiming[] }[] = [];
+  private interactionCount = 0;
+  private latestInteractionID = 0;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(emit: (vital: WebVital) => void) {
+    this.emit = emit;
+    this.observer = new PerformanceEntryObserver(this.onEntry.bind(this));
+  }
+
+  /**
+   * Rate a vital's value using the thresholds recommended for the Core Web Vitals
+   *
+   * @param {WebVitalName} name - "LCP", "CLS", "INP", "FCP" or "TTFB"
+   * @param {number} value - the value of the vital
+   */
+  public static rate(name: WebVitalName, value: number): WebVitalRating {
+    const [good, poor] = this.thresholds[name];
+    if (value <= good) {
+      return "good";
+    }
+    if (value <= poor) {
+      return "needs-improvement";
+    }
+    return "poor";
+  }
+
+  /**
+   * Begin observing the performance entries the vitals are derived from
+   *
+   * @returns {boolean} - whether the vitals can be observed in the current environment
+   */
+  public start() {
+    const observing = this.observer.observe({
+      entryTypes: WebVitals.entryTypes,
+      buffered: true,
+      durationThreshold: 40,
+    });
+    if (observing && typeof document !== "undefined") {
+      this.unsubscribe?.();
+      this.unsubscribe = PageLifecycle.onHidden(this.onHidden);
+      window.addEventListener("keydown", this.onInput, true);
+      window.addEventListener("pointerdown", this.onInput, true);
+    }
+    return observing;
+  }
+
+  /**
+   * Stop observing performance entries and page lifecycle events
+   */
+  public stop() {
+    this.observer.disconnect();
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (typeof document !== "undefined") {
+      window.removeEventListener("keydown", this.onInput, true);
+      window.removeEventListener("pointerdown", this.onInput, true);
+    }
+  }
+
+  /**
+   * Record an observed performance entry
+   *
+   * @param {PerformanceEntry} entry - an entry of one of WebVitals.entryTypes
+   */
+  private onEntry(entry: PerformanceEntry) {
+    switch (entry.entryType) {
+      case "paint":
+        if (entry.name === "first-contentful-paint") {
+          this.report("FCP", entry.startTime, [entry]);
+        }
+        return;
+      case "navigation": {
+        const { responseStart, activationStart = 0 } = entry as NavigationTiming;
+        return this.report("TTFB", Math.max(responseStart - activationStart, 0), [entry]);
+      }
+      case "largest-contentful-paint":
+        if (!("LCP" in this.reported)) {
+          this.largestContentfulPaint = entry;
+        }
+        return;
+      case "layout-shift":
+        return this.onLayoutShift(entry as LayoutShift);
+      default:
+        return this.onEventTiming(entry as EventTiming);
+    }
+  }
+
+  /**
+   * Group layout shifts into session windows. A session window ends after a second without
+   * a shift or five seconds after it began. CLS is the value of the largest session window
+   *
+   * @param {LayoutShift} entry - a layout-shift entry
+   */
+  private onLayoutShift(entry: LayoutShift) {
+    if (entry.hadRecentInput) {
+      return;
+    }
+    const { entries } = this.sessionWindow;
+    const first = entries[0];
+    const last = entries[entries.length - 1];
+    if (first && entry.startTime - last.startTime < 1000 && entry.startTime - first.startTime < 5000) {
+      this.sessionWindow.value += entry.value;
+      entries.push(entry);
+    } else {
+      this.sessionWindow = { value: entry.value, entries: [entry] };
+    }
+    if (this.sessionWindow.value > this.layoutShifts.value) {
+      this.layoutShifts = { value: this.sessionWindow.value, entries: [...this.sessionWindow.entries] };
+    }
+  }
+
+  /**
+   * Record the latency of the slowest user interactions. An interaction's latency is the
+   * duration of its longest event. Only the 10 slowest interactions are kept, since
+   * no more than one is ignored for every 50 interactions on the page
+   *
+   * @param {EventTiming} entry - an event or first-input entry
+   */
+  private onEventTiming(entry: EventTiming) {
+    const { interactionId } = entry;
+    if (!interactionId) {
+      return;
+    }
+    // Interaction IDs increase with each interaction
+    if (interactionId > this.latestInteractionID) {
+      this.latestInteractionID = interactionId;
+      this.interactionCount++;
+    }
+    const interaction = this.interactions.find(({ ID }) => ID === interactionId);
+    const fastest = this.interactions[this.interactions.length - 1];
+    if (interaction) {
+      interaction.latency = Math.max(interaction.latency, entry.duration);
+      interaction.entries.push(entry);
+    } else if (this.interactions.length < WebVitals.maxInteractions || entry.duration > fastest.latency) {
+      this.interactions.push({ ID: interactionId, latency: entry.duration, entries: [entry] });
+    } else {
+      return;
+    }
+    this.interactions.sort((a, b) => b.latency - a.latency);
+    this.interactions.splice(WebVitals.maxInteractions);
+  }
+
+  /**
+   * Returns the interaction used as the INP. One of the slowest interactions is ignored
+   * for every 50 interactions on the page
+   */
+  private getInteractionToNextPaint() {
+    const index = Math.min(this.interactions.length - 1, Math.floor(this.interactionCount / 50));
+    return this.interactions[index];
+  }
+
+  /**
+   * The largest contentful paint is final once the user interacts with the page
+   */
+  private onInput = () => {
+    this.reportLargestContentfulPaint();
+  };
+
+  /**
+   * Emit the vitals that are finalized or updated when the page is hidden
+   */
+  private onHidden = () => {
+    this.reportLargestContentfulPaint();
+    this.report("CLS", this.layoutShifts.value, this.layoutShifts.entries);
+    const interaction = this.getInteractionToNextPaint();
+    if (interaction) {
+      this.report("INP", interaction.latency, interaction.entries);
+    }
+  };
+
+  /**
+   * Emit the latest largest-contentful-paint candidate, once
+   */
+  private reportLargestContentfulPaint() {
+    if (this.largestContentfulPaint && !("LCP" in this.reported)) {
+      this.report("LCP", this.largestContentfulPaint.startTime, [this.largestContentfulPaint]);
+      this.largestContentfulPaint = null;
+    }
+  }
+
+  /**
+   * Emit a vital unless its value is unchanged since it was last emitted
+   *
+   * @param {WebVitalName} name - "LCP", "CLS", "INP", "FCP" or "TTFB"
+   * @param {number} value - the value of the vital
+   * @param {PerformanceEntry[]} entries - the entries attributing the vital's value
+   */
+  private report(name: WebVitalName, value: number, entries: PerformanceEntry[]) {
+    if (this.reported[name] === value) {
+      return;
+    }
+    this.reported[name] = value;
+    this.emit({ name, value, rating: WebVitals.rate(name, value), entries });
+  }
+}
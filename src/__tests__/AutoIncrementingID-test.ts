@@ -21,4 +21,16 @@ describe("Auto Incrmenting ID", () => {
     AutoIncrementingID.destroy();
     expect(AutoIncrementingID.nextID).toEqual("0");
   });
+
+  describe("Instances:", () => {
+    it("Increment independently of the global ID space", () => {
+      const IDs = new AutoIncrementingID();
+      expect(AutoIncrementingID.nextID).toEqual("0");
+      expect(IDs.nextID).toEqual("0");
+      expect(IDs.nextID).toEqual("1");
+      expect(AutoIncrementingID.nextID).toEqual("1");
+      IDs.destroy();
+      expect(IDs.nextID).toEqual("0");
+    });
+  });
 });
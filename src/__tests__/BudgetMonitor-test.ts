@@ -0,0 +1,99 @@
+import { BudgetMonitor } from "../BudgetMonitor";
+import { MetricsQueue } from "../MetricsQueue";
+
+describe("Budget Monitor:", () => {
+  describe("Max:", () => {
+    it("Returns violations for metrics exceeding their max", () => {
+      const monitor = new BudgetMonitor({ "home-page-interactive": { max: 5000 } });
+      expect(monitor.evaluate("home-page-interactive", [{ duration: 6000 }])).toEqual([
+        {
+          metric: "home-page-interactive",
+          budget: "max",
+          value: 6000,
+          limit: 5000,
+          overshoot: 1000,
+          sampleSize: 1,
+        },
+      ]);
+    });
+
+    it("Returns no violations for metrics within their max", () => {
+      const monitor = new BudgetMonitor({ "home-page-interactive": { max: 5000 } });
+      expect(monitor.evaluate("home-page-interactive", [{ duration: 5000 }])).toEqual([]);
+    });
+
+    it("Ignores metrics without a budget or a value", () => {
+      const monitor = new BudgetMonitor({ "home-page-interactive": { max: 5000 } });
+      expect(monitor.evaluate("other-metric", [{ duration: 6000 }])).toEqual([]);
+      expect(monitor.evaluate("home-page-interactive", ["not a metric"])).toEqual([]);
+    });
+  });
+
+  describe("Percentiles:", () => {
+    it("Evaluates percentiles against a rolling window of values", () => {
+      const monitor = new BudgetMonitor({ ttfb: { p95: 800, samples: 3, minSamples: 1 } });
+      expect(monitor.evaluate("ttfb", [900])).toEqual([
+        { metric: "ttfb", budget: "p95", value: 900, limit: 800, overshoot: 100, sampleSize: 1 },
+      ]);
+      expect(monitor.evaluate("ttfb", [100])).toHaveLength(1);
+      expect(monitor.evaluate("ttfb", [100])).toHaveLength(1);
+      // The 900ms sample leaves the window
+      expect(monitor.evaluate("ttfb", [100])).toEqual([]);
+    });
+
+    it("Waits for 10 samples before evaluating percentiles by default", () => {
+      const monitor = new BudgetMonitor({ ttfb: { p95: 800 } });
+      for (let i = 0; i < 9; i++) {
+        expect(monitor.evaluate("ttfb", [900])).toEqual([]);
+      }
+      expect(monitor.evaluate("ttfb", [900])).toEqual([
+        { metric: "ttfb", budget: "p95", value: 900, limit: 800, overshoot: 100, sampleSize: 10 },
+      ]);
+    });
+
+    it("Supports a custom minimum number of samples", () => {
+      const monitor = new BudgetMonitor({ ttfb: { p95: 800, minSamples: 2 } });
+      expect(monitor.evaluate("ttfb", [900])).toEqual([]);
+      expect(monitor.evaluate("ttfb", [900])).toHaveLength(1);
+    });
+
+    it("Evaluates windows smaller than the minimum number of samples once they're full", () => {
+      const monitor = new BudgetMonitor({ ttfb: { p95: 800, samples: 2 } });
+      expect(monitor.evaluate("ttfb", [900])).toEqual([]);
+      expect(monitor.evaluate("ttfb", [900])).toHaveLength(1);
+    });
+
+    it("Evaluates max budgets from the first sample", () => {
+      const monitor = new BudgetMonitor({ ttfb: { max: 800, p95: 800 } });
+      expect(monitor.evaluate("ttfb", [900])).toEqual([expect.objectContaining({ budget: "max" })]);
+    });
+  });
+
+  describe("Integration with the MetricsQueue:", () => {
+    beforeEach(() => {
+      MetricsQueue.destroy();
+    });
+
+    it("Emits budget-violation events for metrics exceeding their budgets", async () => {
+      MetricsQueue.init({
+        usePerformanceAPI: false,
+        budgets: { "example-metric": { max: 100 } },
+        plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } },
+      });
+      const listenerSpy = jest.fn();
+      MetricsQueue.addEventListener(BudgetMonitor.event, listenerSpy, { keepAlive: true });
+      MetricsQueue.plugins.onPerformanceLibraryEvent("example-metric", { duration: 50 });
+      MetricsQueue.plugins.onPerformanceLibraryEvent("example-metric", { duration: 150 });
+      await new Promise(process.nextTick);
+      expect(listenerSpy).toHaveBeenCalledTimes(1);
+      expect(listenerSpy).toHaveBeenCalledWith({
+        metric: "example-metric",
+        budget: "max",
+        value: 150,
+        limit: 100,
+        overshoot: 50,
+        sampleSize: 1,
+      });
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { MetricsQueue } from "../MetricsQueue";
+import { CompositeListener } from "../CompositeListener";
+
+describe("Composite Listener:", () => {
+  beforeEach(() => {
+    MetricsQueue.destroy();
+    MetricsQueue.init({
+      usePerformanceAPI: false,
+      plugins: {
+        onPerformanceLibraryEvent: {
+          processAfterCallStack: false,
+        },
+      },
+    });
+  });
+
+  const emit = (event: string, ...args: any[]) =>
+    MetricsQueue.plugins.onPerformanceLibraryEvent(event, ...args);
+
+  describe("Get Events:", () => {
+    it("Returns the events of each type of condition", () => {
+      expect(CompositeListener.getEvents({ all: ["a", "b"] })).toEqual(["a", "b"]);
+      expect(CompositeListener.getEvents({ any: ["c"] })).toEqual(["c"]);
+      expect(CompositeListener.getEvents({ sequence: ["d", "e"] })).toEqual(["d", "e"]);
+    });
+  });
+
+  describe("All:", () => {
+    it("Invokes the callback once each event is reached with a map of their arguments", async () => {
+      const callback = jest.fn();
+      MetricsQueue.addCompositeListener({ all: ["first-paint", "interactive"] }, callback);
+      emit("interactive", 2);
+      await new Promise(process.nextTick);
+      expect(callback).toHaveBeenCalledTimes(0);
+      emit("first-paint", 1);
+      await new Promise(process.nextTick);
+      expect(callback).toHaveBeenCalledWith({ "first-paint": [1], interactive: [2] });
+      expect(MetricsQueue["emitter"]).toEqual({});
+      expect(MetricsQueue["composites"]).toEqual({});
+    });
+
+    it("Re-arms keepAlive listeners", () => {
+      const callback = jest.fn();
+      MetricsQueue.addCompositeListener({ all: ["a", "b"] }, callback, { keepAlive: true, passive: false });
+      emit("a", 1);
+      emit("b", 1);
+      emit("a", 2);
+      expect(callback).toHaveBeenCalledTimes(1);
+      emit("b", 2);
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(callback).toHaveBeenLastCalledWith({ a: [2], b: [2] });
+    });
+  });
+
+  describe("Any:", () => {
+    it("Invokes the callback with the first event reached", () => {
+      const callback = jest.fn();
+      MetricsQueue.addCompositeListener({ any: ["a", "b"] }, callback, { passive: false });
+      emit("b", "stuff");
+      emit("a", "stuff");
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith({ b: ["stuff"] });
+      expect(MetricsQueue["emitter"]).toEqual({});
+    });
+  });
+
+  describe("Sequence:", () => {
+    it("Invokes the callback only when events are reached in order", () => {
+      const callback = jest.fn();
+      MetricsQueue.addCompositeListener({ sequence: ["a", "b", "c"] }, callback, { passive: false });
+      emit("b");
+      emit("a");
+      emit("c");
+      expect(callback).toHaveBeenCalledTimes(0);
+      emit("b");
+      emit("c");
+      expect(callback).toHaveBeenCalledWith({ a: [], b: [], c: [] });
+    });
+  });
+
+  describe("Sticky:", () => {
+    it("Completes using events reached before registration", () => {
+      emit("a", 1);
+      emit("b", 2);
+      const callback = jest.fn();
+      MetricsQueue.addCompositeListener({ all: ["a", "b"] }, callback, { passive: false, sticky: true });
+      expect(callback).toHaveBeenCalledWith({ a: [1], b: [2] });
+      expect(MetricsQueue["emitter"]).toEqual({});
+      expect(MetricsQueue["composites"]).toEqual({});
+    });
+
+    it("Replays events in the order they were reached", () => {
+      emit("b", 1);
+      emit("a", 2);
+      const callback = jest.fn();
+      MetricsQueue.addCompositeListener({ sequence: ["a", "b"] }, callback, { passive: false, sticky: true });
+      expect(callback).not.toHaveBeenCalled();
+      emit("b", 3);
+      expect(callback).toHaveBeenCalledWith({ a: [2], b: [3] });
+    });
+
+    it("Replays events reached in order to complete sequences", () => {
+      emit("a", 1);
+      emit("b", 2);
+      const callback = jest.fn();
+      MetricsQueue.addCompositeListener({ sequence: ["a", "b"] }, callback, { passive: false, sticky: true });
+      expect(callback).toHaveBeenCalledWith({ a: [1], b: [2] });
+      expect(MetricsQueue["emitter"]).toEqual({});
+    });
+  });
+
+  describe("Remove Composite Listener:", () => {
+    it("Removes each of the listeners registered by a composite listener", () => {
+      const callback = jest.fn();
+      const ID = MetricsQueue.addCompositeListener({ all: ["a", "b"] }, callback);
+      expect(Object.keys(MetricsQueue["emitter"])).toEqual(["a", "b"]);
+      expect(MetricsQueue.removeCompositeListener(ID)).toEqual(true);
+      expect(MetricsQueue["emitter"]).toEqual({});
+      expect(MetricsQueue.removeCompositeListener(ID)).toEqual(null);
+    });
+  });
+
+  describe("Error Handling:", () => {
+    const init = (onError: jest.Mock) => {
+      MetricsQueue.destroy();
+      MetricsQueue.init({
+        onError,
+        usePerformanceAPI: false,
+        plugins: {
+          onPerformanceLibraryEvent: {
+            processAfterCallStack: false,
+          },
+        },
+      });
+    };
+
+    it("Routes errors thrown by passive callbacks to the 'onError' handler", async () => {
+      const onError = jest.fn();
+      init(onError);
+      const error = new Error("passive");
+      const ID = MetricsQueue.addCompositeListener({ all: ["a", "b"] }, () => {
+        throw error;
+      });
+      emit("a");
+      emit("b");
+      await new Promise(process.nextTick);
+      expect(onError).toHaveBeenCalledWith(error, {
+        event: "b",
+        listenerID: ID,
+        phase: "passive-listener",
+      });
+    });
+
+    it("Routes errors thrown by non-passive callbacks to the 'onError' handler", () => {
+      const onError = jest.fn();
+      init(onError);
+      const error = new Error("sync");
+      const ID = MetricsQueue.addCompositeListener(
+        { any: ["a"] },
+        () => {
+          throw error;
+        },
+        { passive: false }
+      );
+      expect(() => emit("a")).not.toThrow();
+      expect(onError).toHaveBeenCalledWith(error, { event: "a", listenerID: ID, phase: "listener" });
+    });
+
+    it("Emits 'metrics-queue:error' when a callback throws", async () => {
+      init(jest.fn());
+      const listener = jest.fn();
+      MetricsQueue.addEventListener("metrics-queue:error", listener, { passive: false });
+      MetricsQueue.addCompositeListener({ any: ["a"] }, () => {
+        throw new Error("composite");
+      });
+      emit("a");
+      await new Promise(process.nextTick);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Leak Detection:", () => {
+    it("Removes the listeners it registered when leak detection throws", () => {
+      MetricsQueue.destroy();
+      MetricsQueue.init({ usePerformanceAPI: false, maxListeners: 1, leakDetection: { mode: "throw" } });
+      MetricsQueue.addEventListener("b", () => {});
+      expect(() => MetricsQueue.addCompositeListener({ all: ["a", "b"] }, () => {})).toThrow(
+        'There are currently 2 listeners registered to "b", exceeding the limit of 1'
+      );
+      const { events, composites } = MetricsQueue.inspect();
+      expect(Object.keys(events)).toEqual(["b"]);
+      expect(events.b).toHaveLength(1);
+      expect(composites).toEqual([]);
+    });
+  });
+
+  describe("Validation:", () => {
+    it("Throws when a condition has no events", () => {
+      expect(() => {
+        MetricsQueue.addCompositeListener({ all: [] }, () => {});
+      }).toThrow(
+        "To register a composite listener, please provide a condition with a non-empty list of 'all', 'any', or 'sequence' events"
+      );
+    });
+  });
+});
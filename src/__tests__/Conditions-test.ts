@@ -0,0 +1,64 @@
+import { Conditions } from "../Conditions";
+
+describe("Conditions:", () => {
+  const measure = { name: "example-measure", duration: 500, detail: { route: "/home", cached: false } };
+
+  describe("Predicates:", () => {
+    it("Calls predicates with the metric's arguments", () => {
+      const predicate = jest.fn(() => true);
+      expect(Conditions.matches(predicate, [measure, "example-measure"])).toEqual(true);
+      expect(predicate).toHaveBeenCalledWith(measure, "example-measure");
+    });
+
+    it("Fails when predicates return false", () => {
+      expect(Conditions.matches(() => false, [measure])).toEqual(false);
+    });
+  });
+
+  describe("Durations:", () => {
+    it("Matches durations above a threshold", () => {
+      expect(Conditions.matches({ durationAbove: 499 }, [measure])).toEqual(true);
+      expect(Conditions.matches({ durationAbove: 500 }, [measure])).toEqual(false);
+    });
+
+    it("Matches durations below a threshold", () => {
+      expect(Conditions.matches({ durationBelow: 501 }, [measure])).toEqual(true);
+      expect(Conditions.matches({ durationBelow: 500 }, [measure])).toEqual(false);
+    });
+
+    it("Matches durations within a range", () => {
+      expect(Conditions.matches({ durationAbove: 100, durationBelow: 1000 }, [measure])).toEqual(true);
+      expect(Conditions.matches({ durationAbove: 100, durationBelow: 200 }, [measure])).toEqual(false);
+    });
+
+    it("Treats numeric plugin metrics as durations", () => {
+      expect(Conditions.matches({ durationAbove: 10 }, [20])).toEqual(true);
+    });
+
+    it("Fails when a metric has no duration", () => {
+      expect(Conditions.matches({ durationBelow: 10 }, [{}])).toEqual(false);
+      expect(Conditions.matches({ durationBelow: 10 }, [])).toEqual(false);
+    });
+  });
+
+  describe("Details:", () => {
+    it("Matches partial detail objects", () => {
+      expect(Conditions.matches({ detailMatches: { route: "/home" } }, [measure])).toEqual(true);
+      expect(Conditions.matches({ detailMatches: { route: "/home", cached: true } }, [measure])).toEqual(
+        false
+      );
+    });
+
+    it("Matches detail predicates", () => {
+      expect(Conditions.matches({ detailMatches: (detail) => !detail.cached }, [measure])).toEqual(true);
+    });
+
+    it("Fails when a metric has no detail", () => {
+      expect(Conditions.matches({ detailMatches: { route: "/home" } }, [{ duration: 1 }])).toEqual(false);
+    });
+  });
+
+  it("Matches when a condition is empty", () => {
+    expect(Conditions.matches({}, [measure])).toEqual(true);
+  });
+});
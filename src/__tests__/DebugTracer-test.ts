@@ -0,0 +1,59 @@
+import { DebugTracer } from "../DebugTracer";
+
+describe("Debug Tracer:", () => {
+  beforeEach(() => {
+    jest.spyOn(Date, "now").mockReturnValue(1000);
+    jest.spyOn(console, "debug").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("Records timestamped entries", () => {
+    const tracer = new DebugTracer({ log: false });
+    tracer.record({ type: "emit", event: "example-metric", value: 10 });
+    expect(tracer.trace).toEqual([{ type: "emit", event: "example-metric", value: 10, timestamp: 1000 }]);
+  });
+
+  it("Retains only the most recent entries", () => {
+    const tracer = new DebugTracer({ log: false, bufferSize: 2 });
+    ["first", "second", "third"].forEach((event) => tracer.record({ type: "emit", event, value: null }));
+    expect(tracer.trace.map(({ event }) => event)).toEqual(["second", "third"]);
+  });
+
+  it("Logs each entry unless logging is disabled", () => {
+    new DebugTracer().record({
+      type: "listener",
+      event: "example-metric",
+      listenerID: "0",
+      duration: 1.234,
+      consumed: true,
+      threw: false,
+    });
+    expect(console.debug).toHaveBeenCalledWith(
+      '[metrics-queue] Executed listener 0 on "example-metric" in 1.23ms (consumed)',
+      expect.objectContaining({ type: "listener" })
+    );
+    new DebugTracer({ log: false }).record({ type: "emit", event: "example-metric", value: null });
+    expect(console.debug).toHaveBeenCalledTimes(1);
+  });
+
+  it("Empties the trace buffer", () => {
+    const tracer = new DebugTracer({ log: false });
+    tracer.record({ type: "emit", event: "example-metric", value: null });
+    tracer.clear();
+    expect(tracer.trace).toEqual([]);
+  });
+
+  it("Returns the stack trace of the caller's caller", () => {
+    function registerListener() {
+      return DebugTracer.callSite();
+    }
+    function application() {
+      return registerListener();
+    }
+    const callSite = application() as string;
+    expect(callSite.split("\n")[0]).toContain("application");
+  });
+});
@@ -0,0 +1,65 @@
+import { DerivedMeasure } from "../DerivedMeasure";
+
+describe("Derived Measure:", () => {
+  it("Returns the measure once the end mark follows the start mark", () => {
+    const measure = new DerivedMeasure("search-latency", { start: "search-submit", end: "results-rendered" });
+    expect(measure.onMark("results-rendered", 5)).toEqual(null);
+    expect(measure.onMark("search-submit", 10)).toEqual(null);
+    expect(measure.onMark("unrelated-mark", 15)).toEqual(null);
+    expect(measure.onMark("results-rendered", 40)).toEqual([
+      "search-latency",
+      { start: 10, end: 40 },
+      undefined,
+    ]);
+    expect(measure.completed).toEqual(true);
+    expect(measure.onMark("search-submit", 50)).toEqual(null);
+    expect(measure.onMark("results-rendered", 60)).toEqual(null);
+  });
+
+  it("Falls back to the names of the marks when their start times are unknown", () => {
+    const measure = new DerivedMeasure("search-latency", {
+      start: "search-submit",
+      end: "results-rendered",
+      detail: { route: "/search" },
+    });
+    measure.onMark("search-submit");
+    expect(measure.onMark("results-rendered")).toEqual([
+      "search-latency",
+      { start: "search-submit", end: "results-rendered", detail: { route: "/search" } },
+      undefined,
+    ]);
+  });
+
+  it("Restarts when the start mark is reached again before the end mark", () => {
+    const measure = new DerivedMeasure("search-latency", { start: "search-submit", end: "results-rendered" });
+    measure.onMark("search-submit", 10);
+    measure.onMark("search-submit", 20);
+    expect(measure.onMark("results-rendered", 30)).toEqual([
+      "search-latency",
+      { start: 20, end: 30 },
+      undefined,
+    ]);
+  });
+
+  it("Re-arms after each pair when repeating", () => {
+    const measure = new DerivedMeasure("search-latency", {
+      start: "search-submit",
+      end: "results-rendered",
+      repeat: true,
+    });
+    measure.onMark("search-submit", 10);
+    expect(measure.onMark("results-rendered", 30)).toEqual([
+      "search-latency",
+      { start: 10, end: 30 },
+      undefined,
+    ]);
+    expect(measure.completed).toEqual(false);
+    expect(measure.onMark("results-rendered", 35)).toEqual(null);
+    measure.onMark("search-submit", 40);
+    expect(measure.onMark("results-rendered", 45)).toEqual([
+      "search-latency",
+      { start: 40, end: 45 },
+      undefined,
+    ]);
+  });
+});
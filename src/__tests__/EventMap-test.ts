@@ -0,0 +1,133 @@
+import { MetricsQueue } from "../MetricsQueue";
+import { useMetricsQueues } from "../testUtils";
+import type { BudgetViolation, ErrorContext, WebVital } from "../types";
+
+type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2 ? true : false;
+
+// Fails to compile when its type argument is not true
+const expectType = <T extends true>(): T | void => undefined;
+
+type CheckoutEvents = {
+  "checkout-ready": [duration: number];
+  "search-results": [count: number, query: string];
+};
+
+describe("Event Map:", () => {
+  const createQueue = useMetricsQueues();
+  const create = () =>
+    createQueue<CheckoutEvents, "checkoutLib">({
+      usePerformanceAPI: false,
+      plugins: { checkoutLib: { processAfterCallStack: false } },
+    });
+
+  it("Infers the arguments of listeners from the event map", async () => {
+    const queue = create();
+    const listener = jest.fn();
+    queue.addEventListener("search-results", (count, query) => {
+      expectType<Equals<typeof count, number>>();
+      expectType<Equals<typeof query, string>>();
+      listener(count, query);
+    });
+    queue.plugins.checkoutLib("search-results", 10, "shoes");
+    await new Promise(process.nextTick);
+    expect(listener).toHaveBeenCalledWith(10, "shoes");
+  });
+
+  it("Infers the arguments of batched listeners from the event map", async () => {
+    const queue = create();
+    const listener = jest.fn();
+    queue.addEventListener(
+      "search-results",
+      (batch) => {
+        expectType<Equals<typeof batch, [count: number, query: string][]>>();
+        listener(batch);
+      },
+      { keepAlive: true, passive: false, batch: { size: 2 } }
+    );
+    queue.plugins.checkoutLib("search-results", 10, "shoes");
+    queue.plugins.checkoutLib("search-results", 4, "boots");
+    await new Promise(process.nextTick);
+    expect(listener).toHaveBeenCalledWith([
+      [10, "shoes"],
+      [4, "boots"],
+    ]);
+  });
+
+  it("Rejects unknown event names and mismatched payloads", () => {
+    const queue = create();
+    // @ts-expect-error - "checkout-redy" is not in the event map
+    queue.addEventListener("checkout-redy", () => {});
+    // @ts-expect-error - "checkout-ready" listeners receive a number
+    queue.addEventListener("checkout-ready", (duration: string) => duration);
+    // @ts-expect-error - "checkout-ready" is emitted with a number
+    queue.plugins.checkoutLib("checkout-ready", "fast");
+    // @ts-expect-error - "searchLib" is not a registered plugin
+    queue.plugins.searchLib?.("checkout-ready", 10);
+    // @ts-expect-error - "checkout-redy" is not in the event map
+    queue.removeEventListener("checkout-redy", "0");
+    // @ts-expect-error - waitFor resolves with a single occurrence
+    void queue.waitFor("checkout-ready", { debounce: 100 }).catch(() => {});
+    // @ts-expect-error - "checkout-redy" is not in the event map
+    queue.addCompositeListener({ all: ["checkout-ready", "checkout-redy"] }, () => {});
+    expect(true).toEqual(true);
+  });
+
+  it("Types the reserved events in each event map", () => {
+    const queue = create();
+    queue.addEventListener("budget-violation", (violation) => {
+      expectType<Equals<typeof violation, BudgetViolation>>();
+    });
+    queue.addEventListener("metrics-queue:error", (error, context) => {
+      expectType<Equals<typeof error, unknown>>();
+      expectType<Equals<typeof context, ErrorContext>>();
+    });
+    queue.addEventListener("LCP", (vital) => {
+      expectType<Equals<typeof vital, WebVital>>();
+    });
+    expect(Object.keys(queue.inspect().events)).toHaveLength(3);
+  });
+
+  it("Resolves waitFor with the arguments of the event", async () => {
+    const queue = create();
+    const promise = queue.waitFor("checkout-ready");
+    expectType<Equals<typeof promise, Promise<[duration: number]>>>();
+    queue.plugins.checkoutLib("checkout-ready", 1200);
+    await expect(promise).resolves.toEqual([1200]);
+  });
+
+  it("Provides pattern listeners with the names of the events in the map", () => {
+    const queue = create();
+    queue.addEventListener("checkout-*", (event) => {
+      expectType<
+        Equals<
+          typeof event,
+          | keyof CheckoutEvents
+          | "budget-violation"
+          | "slow-listener"
+          | "tier-change"
+          | "metrics-queue:error"
+          | WebVital["name"]
+        >
+      >();
+    });
+    expect(queue.inspect().patterns).toHaveProperty("checkout-*");
+  });
+
+  it("Infers plugin names from the plugins provided", () => {
+    const queue = createQueue({
+      usePerformanceAPI: false,
+      plugins: { searchLib: { processAfterCallStack: false } },
+    });
+    expectType<Equals<keyof typeof queue.plugins, "searchLib">>();
+    // @ts-expect-error - "checkoutLib" is not a registered plugin
+    expect(queue.plugins.checkoutLib).toEqual(undefined);
+  });
+
+  it("Accepts any event name by default", () => {
+    MetricsQueue.init();
+    MetricsQueue.addEventListener("any-event-name", (...args) => args);
+    MetricsQueue.plugins.anyPlugin?.("any-event-name", 1, "two", { three: 3 });
+    expect(MetricsQueue.removeEventListener("any-event-name", "0")).toEqual(true);
+    MetricsQueue.destroy();
+  });
+});
@@ -0,0 +1,96 @@
+import { FakePerformance } from "../testing";
+
+describe("Fake Performance:", () => {
+  it("Only advances when told to", () => {
+    const performance = new FakePerformance(100);
+    expect(performance.now()).toEqual(100);
+    expect(performance.advance(50)).toEqual(150);
+    expect(performance.now()).toEqual(150);
+  });
+
+  it("Records marks at the current time or the start time provided", () => {
+    const performance = new FakePerformance();
+    performance.advance(10);
+    expect(performance.mark("first-mark")).toEqual({
+      name: "first-mark",
+      entryType: "mark",
+      startTime: 10,
+      duration: 0,
+      detail: null,
+    });
+    expect(performance.mark("second-mark", { startTime: 5, detail: { route: "/" } })).toEqual(
+      expect.objectContaining({ startTime: 5, detail: { route: "/" } })
+    );
+  });
+
+  it("Records measures between marks", () => {
+    const performance = new FakePerformance();
+    performance.mark("start-mark");
+    performance.advance(30);
+    performance.mark("end-mark");
+    performance.advance(20);
+    expect(performance.measure("between-marks", "start-mark", "end-mark")).toEqual(
+      expect.objectContaining({ entryType: "measure", startTime: 0, duration: 30 })
+    );
+    expect(performance.measure("until-now", "start-mark")).toEqual(
+      expect.objectContaining({ startTime: 0, duration: 50 })
+    );
+  });
+
+  it("Records measures using measure options", () => {
+    const performance = new FakePerformance();
+    performance.advance(100);
+    expect(performance.measure("ending-now", { duration: 40, detail: "detail" })).toEqual(
+      expect.objectContaining({ startTime: 60, duration: 40, detail: "detail" })
+    );
+    expect(performance.measure("starting-later", { start: 70, duration: 10 })).toEqual(
+      expect.objectContaining({ startTime: 70, duration: 10 })
+    );
+    expect(performance.measure("between-times", { start: 20, end: 50 })).toEqual(
+      expect.objectContaining({ startTime: 20, duration: 30 })
+    );
+  });
+
+  it("Throws when measuring from a mark that doesn't exist", () => {
+    const performance = new FakePerformance();
+    expect(() => performance.measure("missing", "missing-mark")).toThrow(
+      'The mark "missing-mark" does not exist'
+    );
+  });
+
+  it("Returns entries by name and type", () => {
+    const performance = new FakePerformance();
+    const mark = performance.mark("example");
+    const measure = performance.measure("example");
+    expect(performance.getEntriesByName("example")).toEqual([mark, measure]);
+    expect(performance.getEntriesByName("example", "measure")).toEqual([measure]);
+    performance.reset();
+    expect(performance.getEntriesByName("example")).toEqual([]);
+  });
+
+  it("Runs timers in order as the clock advances past them", () => {
+    const performance = new FakePerformance();
+    const calls: [string, number][] = [];
+    performance.setTimeout(() => calls.push(["second", performance.now()]), 30);
+    performance.setTimeout(() => calls.push(["first", performance.now()]), 10);
+    const cancelled = performance.setTimeout(() => calls.push(["cancelled", performance.now()]), 20);
+    performance.clearTimeout(cancelled);
+    performance.advance(15);
+    expect(calls).toEqual([["first", 10]]);
+    performance.advance(15);
+    expect(calls).toEqual([
+      ["first", 10],
+      ["second", 30],
+    ]);
+    expect(performance.now()).toEqual(30);
+  });
+
+  it("Removes timers on reset", () => {
+    const performance = new FakePerformance();
+    const callback = jest.fn();
+    performance.setTimeout(callback, 10);
+    performance.reset();
+    performance.advance(10);
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
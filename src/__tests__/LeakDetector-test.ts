@@ -0,0 +1,248 @@
+import { LeakDetector } from "../LeakDetector";
+import { MetricIndexer } from "../MetricIndexer";
+import { createMetricsQueue } from "../createMetricsQueue";
+import type { HashTable, LeakDetectionConfig } from "../types";
+
+describe("Leak Detector:", () => {
+  let emitter: HashTable<MetricIndexer> = {};
+  const onError = jest.fn();
+  const create = (config: LeakDetectionConfig = {}, maxListeners = 2) =>
+    new LeakDetector(config, maxListeners, () => [emitter], onError);
+  const register = (detector: LeakDetector, event: string, keepAlive = false) => {
+    detector.check(event);
+    if (!(event in emitter)) {
+      emitter[event] = new MetricIndexer(event);
+    }
+    const ID = emitter[event].add(() => {}, { keepAlive });
+    detector.register(ID, `Error\n    at register (feature-${ID}.ts:1:1)`);
+    return ID;
+  };
+
+  beforeEach(() => {
+    emitter = {};
+    onError.mockReset();
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("Event Limits:", () => {
+    it("Warns once when an event exceeds its limit", () => {
+      const detector = create();
+      register(detector, "example-event");
+      register(detector, "example-event");
+      expect(console.warn).not.toHaveBeenCalled();
+      register(detector, "example-event");
+      register(detector, "example-event");
+      expect(console.warn).toHaveBeenCalledTimes(1);
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          '[metrics-queue] There are currently 3 listeners registered to "example-event", exceeding the limit of 2'
+        ),
+        expect.objectContaining({ type: "event-limit", event: "example-event", limit: 2, count: 3 })
+      );
+    });
+
+    it("Includes the registration call sites of the listeners involved", () => {
+      const onLeak = jest.fn();
+      const detector = create({ onLeak });
+      const first = register(detector, "example-event");
+      const second = register(detector, "example-event");
+      register(detector, "example-event");
+      expect(onLeak).toHaveBeenCalledWith({
+        type: "event-limit",
+        event: "example-event",
+        limit: 2,
+        count: 3,
+        listeners: [
+          {
+            ID: first,
+            event: "example-event",
+            config: { keepAlive: false, passive: true },
+            callSite: `Error\n    at register (feature-${first}.ts:1:1)`,
+          },
+          {
+            ID: second,
+            event: "example-event",
+            config: { keepAlive: false, passive: true },
+            callSite: `Error\n    at register (feature-${second}.ts:1:1)`,
+          },
+        ],
+      });
+    });
+
+    it("Supports per-event limits", () => {
+      const onLeak = jest.fn();
+      const detector = create({ onLeak, limits: { "critical-event": 1 } });
+      register(detector, "critical-event");
+      register(detector, "critical-event");
+      register(detector, "example-event");
+      register(detector, "example-event");
+      expect(onLeak).toHaveBeenCalledTimes(1);
+      expect(onLeak).toHaveBeenCalledWith(expect.objectContaining({ event: "critical-event", limit: 1 }));
+    });
+
+    it("Reports an event again after it falls back within its limit", () => {
+      const onLeak = jest.fn();
+      const detector = create({ onLeak }, 1);
+      const ID = register(detector, "example-event");
+      register(detector, "example-event");
+      emitter["example-event"].remove(ID);
+      register(detector, "example-event");
+      expect(onLeak).toHaveBeenCalledTimes(1);
+      emitter["example-event"].destroy();
+      register(detector, "example-event");
+      register(detector, "example-event");
+      expect(onLeak).toHaveBeenCalledTimes(2);
+    });
+
+    it("Throws before the listener is registered in throw mode", () => {
+      const detector = create({ mode: "throw" }, 1);
+      register(detector, "example-event");
+      expect(() => register(detector, "example-event")).toThrow(
+        'There are currently 2 listeners registered to "example-event", exceeding the limit of 1'
+      );
+      expect(() => register(detector, "example-event")).toThrow();
+      expect(emitter["example-event"].size).toEqual(1);
+    });
+  });
+
+  describe("Global Limit:", () => {
+    it("Reports the MetricsQueue exceeding its total number of listeners", () => {
+      const onLeak = jest.fn();
+      const detector = create({ onLeak, maxTotalListeners: 2 }, 20);
+      register(detector, "first-event");
+      register(detector, "second-event");
+      expect(onLeak).not.toHaveBeenCalled();
+      register(detector, "third-event");
+      expect(onLeak).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "global-limit",
+          limit: 2,
+          count: 3,
+          listeners: [
+            expect.objectContaining({ event: "first-event" }),
+            expect.objectContaining({ event: "second-event" }),
+          ],
+        })
+      );
+    });
+  });
+
+  describe("Stale Listeners:", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("Reports keepAlive listeners that remain registered after staleAfter", () => {
+      const onLeak = jest.fn();
+      const detector = create({ onLeak, staleAfter: 1000 }, 20);
+      detector.start();
+      const stale = register(detector, "example-event", true);
+      register(detector, "example-event");
+      jest.advanceTimersByTime(1000);
+      expect(onLeak).toHaveBeenCalledTimes(1);
+      expect(onLeak).toHaveBeenCalledWith({
+        type: "stale",
+        event: "example-event",
+        limit: 1000,
+        count: 1,
+        listeners: [expect.objectContaining({ ID: stale, callSite: expect.stringContaining("feature-") })],
+      });
+      jest.advanceTimersByTime(1000);
+      expect(onLeak).toHaveBeenCalledTimes(1);
+      detector.destroy();
+    });
+
+    it("Does not report keepAlive listeners removed before staleAfter", () => {
+      const onLeak = jest.fn();
+      const detector = create({ onLeak, staleAfter: 1000 }, 20);
+      detector.start();
+      const ID = register(detector, "example-event", true);
+      jest.advanceTimersByTime(500);
+      emitter["example-event"].remove(ID);
+      jest.advanceTimersByTime(1500);
+      expect(onLeak).not.toHaveBeenCalled();
+      detector.destroy();
+    });
+
+    it("Routes stale listeners to the error handler in throw mode", () => {
+      const detector = create({ mode: "throw", staleAfter: 1000 }, 20);
+      detector.start();
+      register(detector, "example-event", true);
+      jest.advanceTimersByTime(1000);
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), {
+        event: "example-event",
+        phase: "leak-detection",
+      });
+      detector.destroy();
+    });
+
+    it("Stops sweeping once the MetricsQueue is destroyed", () => {
+      const onLeak = jest.fn();
+      const queue = createMetricsQueue({
+        usePerformanceAPI: false,
+        leakDetection: { onLeak, staleAfter: 1000 },
+      });
+      queue.addEventListener("example-event", () => {}, { keepAlive: true });
+      jest.advanceTimersByTime(1000);
+      expect(onLeak).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "stale",
+          listeners: [expect.objectContaining({ callSite: expect.stringContaining("LeakDetector-test") })],
+        })
+      );
+      queue.destroy();
+      expect(jest.getTimerCount()).toEqual(0);
+    });
+  });
+
+  describe("Registrations:", () => {
+    it("Forgets listeners once they're removed or consumed", async () => {
+      const queue = createMetricsQueue({
+        plugins: { perfLib: { processAfterCallStack: false } },
+      });
+      const registrations = () => (queue["leaks"] as LeakDetector)["registrations"];
+      const ID = queue.addEventListener("example-event", () => {}, { keepAlive: true });
+      queue.addEventListener("example-event", () => {}, { passive: false });
+      queue.addEventListener("example-*", () => {}, { passive: false });
+      expect(registrations().size).toEqual(3);
+      queue.plugins.perfLib("example-event");
+      await new Promise(process.nextTick);
+      expect(registrations().size).toEqual(1);
+      queue.removeEventListener("example-event", ID);
+      expect(registrations().size).toEqual(0);
+      queue.destroy();
+    });
+  });
+
+  describe("Describe:", () => {
+    it("Lists the first frame of each listener's call site", () => {
+      expect(
+        LeakDetector.describe({
+          type: "stale",
+          event: "example-event",
+          limit: 1000,
+          count: 1,
+          listeners: [
+            {
+              ID: "4",
+              event: "example-event",
+              config: { keepAlive: true, passive: true },
+              callSite: "at Feature (Feature.tsx:12:3)\n    at render (react-dom.js:1:1)",
+            },
+          ],
+        })
+      ).toEqual(
+        '1 keepAlive listener(s) registered to "example-event" have not been removed after 1000ms.\n\n' +
+          "Listeners registered:\n  4 (example-event) at Feature (Feature.tsx:12:3)"
+      );
+    });
+  });
+});
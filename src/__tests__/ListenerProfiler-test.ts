@@ -0,0 +1,90 @@
+import { ListenerProfiler } from "../ListenerProfiler";
+import type { ListenerExecution, SlowListener } from "../types";
+
+describe("Listener Profiler:", () => {
+  const execution = (duration: number): ListenerExecution => ({
+    event: "example-event",
+    listenerID: "1",
+    duration,
+    consumed: true,
+    threw: false,
+  });
+  const violation = (duration: number): SlowListener => ({
+    event: "example-event",
+    listenerID: "1",
+    duration,
+    budget: 10,
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("Evaluate:", () => {
+    it("Returns a violation when a listener exceeds the budget", () => {
+      const profiler = new ListenerProfiler({ budget: 10 });
+      expect(profiler.evaluate(execution(10))).toEqual(null);
+      expect(profiler.evaluate(execution(12))).toEqual({
+        event: "example-event",
+        listenerID: "1",
+        duration: 12,
+        budget: 10,
+      });
+    });
+
+    it("Uses a budget of 50ms by default", () => {
+      const profiler = new ListenerProfiler();
+      expect(profiler.budget).toEqual(50);
+      expect(profiler.evaluate(execution(50))).toEqual(null);
+      expect(profiler.evaluate(execution(51))).not.toEqual(null);
+    });
+  });
+
+  describe("Report:", () => {
+    it("Warns and emits each violation", async () => {
+      const profiler = new ListenerProfiler({ budget: 10 });
+      const emit = jest.fn(async () => {});
+      await profiler.report(violation(12.345), emit);
+      expect(emit).toHaveBeenCalledWith(violation(12.345));
+      expect(console.warn).toHaveBeenCalledWith(
+        '[metrics-queue] Listener "1" registered to "example-event" took 12.35ms, exceeding its budget of 10ms'
+      );
+    });
+
+    it("Does not warn when warnings are disabled", async () => {
+      const profiler = new ListenerProfiler({ budget: 10, warn: false });
+      await profiler.report(violation(12), async () => {});
+      expect(console.warn).not.toHaveBeenCalled();
+    });
+
+    it("Ignores a listener's violations until its previous violation is dispatched", async () => {
+      const profiler = new ListenerProfiler({ budget: 10 });
+      let dispatch = () => {};
+      const report = profiler.report(
+        violation(12),
+        () =>
+          new Promise<void>((resolve) => {
+            dispatch = resolve;
+          })
+      );
+      expect(profiler.evaluate(execution(12))).toEqual(null);
+      expect(profiler.evaluate({ ...execution(12), listenerID: "2" })).not.toEqual(null);
+      dispatch();
+      await report;
+      expect(profiler.evaluate(execution(12))).not.toEqual(null);
+    });
+  });
+
+  describe("Measures:", () => {
+    it("Names and identifies the measures recording listener execution times", () => {
+      const name = ListenerProfiler.measureName({ event: "example-event", listenerID: "1" });
+      expect(name).toEqual("metrics-queue:listener:example-event:1");
+      expect(ListenerProfiler.isListenerMeasure(name)).toEqual(true);
+      expect(ListenerProfiler.isListenerMeasure("example-event")).toEqual(false);
+    });
+  });
+});
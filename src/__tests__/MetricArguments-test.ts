@@ -0,0 +1,29 @@
+import { MetricArguments } from "../MetricArguments";
+
+describe("Metric Arguments:", () => {
+  it("Converts performance entries to plain objects", () => {
+    expect(
+      MetricArguments.serialize([
+        { name: "paint", entryType: "mark", startTime: 5, duration: 0, detail: null, toJSON: () => ({}) },
+      ])
+    ).toEqual([{ name: "paint", entryType: "mark", startTime: 5, duration: 0, detail: null }]);
+  });
+
+  it("Drops values that cannot be serialized", () => {
+    const circular: Record<string, any> = {};
+    circular.self = circular;
+    expect(MetricArguments.serialize([() => {}, Symbol("paint"), circular])).toEqual([
+      undefined,
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it("Copies primitives and plain objects", () => {
+    const detail = { route: "/home" };
+    const [copy, ...rest] = MetricArguments.serialize([detail, "paint", 5, null, undefined]);
+    expect(copy).toEqual(detail);
+    expect(copy).not.toBe(detail);
+    expect(rest).toEqual(["paint", 5, null, undefined]);
+  });
+});
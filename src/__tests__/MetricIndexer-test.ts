@@ -75,43 +75,297 @@ describe("Metric Indexer:", () => {
     });
   });
 
-  describe("Size:", () => {
-    it("Returns the weight of the queue", () => {
-      expect(metricIndexer.size).toEqual(0);
-      metricIndexer.add(() => {});
+  describe("Conditions:", () => {
+    it("Only calls and consumes callbacks whose conditions are met", async () => {
+      const slow = jest.fn();
+      const fast = jest.fn();
+      const slowID = metricIndexer.add(slow, { when: { durationAbove: 1000 } });
+      const fastID = metricIndexer.add(fast, { when: { durationBelow: 1000 } });
+      metricIndexer.bust({ duration: 1500 });
+      await new Promise(process.nextTick);
+      expect(slow).toHaveBeenCalledWith({ duration: 1500 });
+      expect(fast).toHaveBeenCalledTimes(0);
+      expect(metricIndexer.get(slowID)).toEqual(undefined);
+      expect(metricIndexer.get(fastID)).not.toEqual(undefined);
+    });
+
+    it("Skips replaying callbacks whose conditions are not met", async () => {
+      const callback = jest.fn();
+      const ID = metricIndexer.add(callback, { when: () => false });
+      await metricIndexer.replay(ID, "example-metric");
+      expect(callback).toHaveBeenCalledTimes(0);
       expect(metricIndexer.size).toEqual(1);
     });
   });
 
-  describe("Chubbiness Check:", () => {
-    it("Should not throw an error when 'silenceWarnings' is set to true", () => {
-      metricIndexer["silenceWarnings"] = true;
-      expect(() => {
-        metricIndexer["chubbinessCheck"]("example-event");
-      }).not.toThrow();
+  describe("Error Isolation:", () => {
+    it("Continues executing and removing listeners after a listener throws", () => {
+      const onError = jest.fn();
+      const indexer = new MetricIndexer("example-metric", { onError });
+      const error = new Error("Listener failure");
+      const callback = jest.fn();
+      indexer.add(
+        () => {
+          throw error;
+        },
+        { passive: false }
+      );
+      indexer.add(callback, { passive: false });
+      void indexer.bust("example-metric");
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(indexer.size).toEqual(0);
+      expect(onError).toHaveBeenCalledWith(error, {
+        event: "example-metric",
+        listenerID: "0",
+        phase: "listener",
+      });
+    });
+
+    it("Reports errors thrown by passive listeners", async () => {
+      const onError = jest.fn();
+      const indexer = new MetricIndexer("example-metric", { onError });
+      const error = new Error("Listener failure");
+      const callback = jest.fn();
+      indexer.add(() => {
+        throw error;
+      });
+      indexer.add(callback);
+      await indexer.bust("example-metric");
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledWith(error, {
+        event: "example-metric",
+        listenerID: "0",
+        phase: "passive-listener",
+      });
+    });
+
+    it("Reports conditions that throw and leaves their listeners registered", async () => {
+      const onError = jest.fn();
+      const indexer = new MetricIndexer("example-metric", { onError });
+      const callback = jest.fn();
+      indexer.add(callback, {
+        when: () => {
+          throw new Error("Condition failure");
+        },
+      });
+      await indexer.bust("example-metric");
+      expect(callback).toHaveBeenCalledTimes(0);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(indexer.size).toEqual(1);
+    });
+  });
+
+  describe("Replay:", () => {
+    it("Calls a single callback with the provided arguments", async () => {
+      const callback = jest.fn();
+      const other = jest.fn();
+      const ID = metricIndexer.add(callback);
+      metricIndexer.add(other);
+      const metric = new PerfLibMetric("example-metric");
+      await metricIndexer.replay(ID, metric);
+      expect(callback).toHaveBeenCalledWith(metric);
+      expect(other).toHaveBeenCalledTimes(0);
+      expect(metricIndexer.size).toEqual(1);
+    });
+
+    it("Calls non-passive callbacks synchronously", () => {
+      const callback = jest.fn();
+      const ID = metricIndexer.add(callback, { passive: false });
+      void metricIndexer.replay(ID, "example-metric");
+      expect(callback).toHaveBeenCalledWith("example-metric");
+    });
+
+    it("Retains keepAlive callbacks", async () => {
+      const ID = metricIndexer.add(() => {}, { keepAlive: true });
+      await metricIndexer.replay(ID, "example-metric");
+      expect(metricIndexer.get(ID)).not.toEqual(undefined);
+    });
+
+    it("Skips passive callbacks that are removed before the callstack clears", async () => {
+      const callback = jest.fn();
+      const ID = metricIndexer.add(callback);
+      const replay = metricIndexer.replay(ID, "example-metric");
+      metricIndexer.remove(ID);
+      await replay;
+      expect(callback).toHaveBeenCalledTimes(0);
+    });
+  });
+
+  describe("Snapshot:", () => {
+    it("Returns the ID, config and call site of each listener", () => {
+      metricIndexer.add(() => {}, { keepAlive: true }, "at registerListener (app.ts:1:1)");
+      metricIndexer.add(() => {});
+      expect(metricIndexer.snapshot()).toEqual([
+        { ID: "0", config: { keepAlive: true, passive: true }, callSite: "at registerListener (app.ts:1:1)" },
+        { ID: "1", config: { keepAlive: false, passive: true } },
+      ]);
+    });
+  });
+
+  describe("On Execute:", () => {
+    it("Reports the execution of each listener", async () => {
+      const onExecute = jest.fn();
+      const indexer = new MetricIndexer("example-metric", { onExecute, onError: () => {} });
+      const keptAlive = indexer.add(() => {}, { keepAlive: true });
+      const consumed = indexer.add(() => {
+        throw new Error("listener error");
+      });
+      await indexer.bust("stuff");
+      expect(onExecute).toHaveBeenCalledWith({
+        event: "example-metric",
+        listenerID: keptAlive,
+        duration: expect.any(Number),
+        consumed: false,
+        threw: false,
+      });
+      expect(onExecute).toHaveBeenCalledWith({
+        event: "example-metric",
+        listenerID: consumed,
+        duration: expect.any(Number),
+        consumed: true,
+        threw: true,
+      });
+    });
+  });
+
+  describe("Rate Limiting:", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
     });
 
-    it("Should not throw an error when a queue has less than 20 callbacks", () => {
-      for (let i = 0; i < 19; i++) {
-        metricIndexer.add(() => {});
-      }
-      expect(() => {
-        metricIndexer["chubbinessCheck"]("example-event");
-      }).not.toThrow();
+    const bust = (times: number, duration = 10) =>
+      Array.from({ length: times }, () => metricIndexer.bust({ duration }));
+
+    it("Removes a listener after it runs a number of times", () => {
+      const callback = jest.fn();
+      const ID = metricIndexer.add(callback, { keepAlive: true, passive: false, times: 2 });
+      bust(3);
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(metricIndexer.get(ID)).toEqual(undefined);
+    });
+
+    it("Keeps listeners that aren't kept alive until they've run a number of times", () => {
+      const callback = jest.fn();
+      const ID = metricIndexer.add(callback, { keepAlive: false, passive: false, times: 2 });
+      bust(1);
+      expect(metricIndexer.get(ID)).not.toEqual(undefined);
+      bust(1);
+      expect(metricIndexer.get(ID)).toEqual(undefined);
     });
 
-    it("Should throw an error when a queue has 20 callbacks or more registered to it", () => {
-      for (let i = 0; i < 20; i++) {
-        metricIndexer.add(() => {});
-      }
-      expect(() => {
-        metricIndexer["chubbinessCheck"]("example-event");
-      }).toThrow(`
-        There are currently more than 20 listeners registered to "example-event".
-        It may be worth adding a new marker or measure to avoid polluting this event's queue.
+    it("Skips a number of occurrences before running", () => {
+      const callback = jest.fn();
+      metricIndexer.add(callback, { keepAlive: false, passive: false, skip: 2 });
+      bust(2);
+      expect(callback).not.toHaveBeenCalled();
+      metricIndexer.bust({ duration: 30 });
+      expect(callback).toHaveBeenCalledWith({ duration: 30 });
+      expect(metricIndexer.size).toEqual(0);
+    });
+
+    it("Only counts occurrences meeting the listener's condition", () => {
+      const callback = jest.fn();
+      metricIndexer.add(callback, { keepAlive: true, passive: false, skip: 1, when: { durationAbove: 20 } });
+      bust(3, 10);
+      bust(2, 30);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it("Ignores occurrences within the throttle window of an execution", () => {
+      const callback = jest.fn();
+      metricIndexer.add(callback, { keepAlive: true, passive: false, throttle: 100 });
+      bust(3);
+      expect(callback).toHaveBeenCalledTimes(1);
+      jest.advanceTimersByTime(99);
+      bust(1);
+      expect(callback).toHaveBeenCalledTimes(1);
+      jest.advanceTimersByTime(1);
+      bust(1);
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    it("Runs with the latest occurrence once occurrences stop for the debounce period", () => {
+      const callback = jest.fn();
+      metricIndexer.add(callback, { keepAlive: true, passive: false, debounce: 100 });
+      metricIndexer.bust({ duration: 10 });
+      jest.advanceTimersByTime(50);
+      metricIndexer.bust({ duration: 20 });
+      jest.advanceTimersByTime(99);
+      expect(callback).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(1);
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith({ duration: 20 });
+    });
 
-        To silence this error, set MetricIndexer.silenceWarnings to false.
-      `);
+    it("Delivers batches of occurrences once they reach their size", () => {
+      const callback = jest.fn();
+      metricIndexer.add(callback, { keepAlive: true, passive: false, batch: { size: 2 } });
+      metricIndexer.bust({ duration: 10 });
+      expect(callback).not.toHaveBeenCalled();
+      metricIndexer.bust({ duration: 20 });
+      metricIndexer.bust({ duration: 30 });
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith([[{ duration: 10 }], [{ duration: 20 }]]);
+    });
+
+    it("Delivers batches once their oldest occurrence has waited the max wait", () => {
+      const callback = jest.fn();
+      metricIndexer.add(callback, { keepAlive: true, passive: false, batch: { size: 10, maxWait: 500 } });
+      metricIndexer.bust({ duration: 10 });
+      jest.advanceTimersByTime(400);
+      metricIndexer.bust({ duration: 20 });
+      jest.advanceTimersByTime(100);
+      expect(callback).toHaveBeenCalledWith([[{ duration: 10 }], [{ duration: 20 }]]);
+      metricIndexer.bust({ duration: 30 });
+      jest.advanceTimersByTime(500);
+      expect(callback).toHaveBeenLastCalledWith([[{ duration: 30 }]]);
+    });
+
+    it("Counts each batch as a single execution", () => {
+      const callback = jest.fn();
+      metricIndexer.add(callback, { passive: false, times: 2, batch: { size: 2 } });
+      bust(6);
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(metricIndexer.size).toEqual(0);
+    });
+
+    it("Discards pending debounces and batches when a listener is removed", () => {
+      const debounced = jest.fn();
+      const batched = jest.fn();
+      const debouncedID = metricIndexer.add(debounced, { keepAlive: true, passive: false, debounce: 100 });
+      const batchedID = metricIndexer.add(batched, {
+        keepAlive: true,
+        passive: false,
+        batch: { maxWait: 100 },
+      });
+      bust(1);
+      metricIndexer.remove(debouncedID);
+      metricIndexer.remove(batchedID);
+      jest.advanceTimersByTime(100);
+      expect(debounced).not.toHaveBeenCalled();
+      expect(batched).not.toHaveBeenCalled();
+    });
+
+    it("Schedules rate limited executions", async () => {
+      const callback = jest.fn();
+      metricIndexer.add(callback, { keepAlive: true, passive: true, debounce: 100 });
+      bust(1);
+      jest.advanceTimersByTime(100);
+      expect(callback).not.toHaveBeenCalled();
+      await Promise.resolve();
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Size:", () => {
+    it("Returns the weight of the queue", () => {
+      expect(metricIndexer.size).toEqual(0);
+      metricIndexer.add(() => {});
+      expect(metricIndexer.size).toEqual(1);
     });
   });
 
@@ -121,10 +375,8 @@ describe("Metric Indexer:", () => {
       metricIndexer.add(callback);
       metricIndexer.add(callback);
       metricIndexer.add(callback);
-      metricIndexer["silenceWarnings"] = true;
       metricIndexer.destroy();
       expect(metricIndexer["queue"]).toEqual(new Map());
-      expect(metricIndexer["silenceWarnings"]).toEqual(false);
     });
   });
 });
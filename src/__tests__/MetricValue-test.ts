@@ -0,0 +1,26 @@
+import { MetricValue } from "../MetricValue";
+
+describe("Metric Value:", () => {
+  it("Returns numeric metrics as is", () => {
+    expect(MetricValue.from(42)).toEqual(42);
+  });
+
+  it("Returns the start time of performance marks", () => {
+    expect(MetricValue.from({ entryType: "mark", startTime: 100, duration: 0 })).toEqual(100);
+  });
+
+  it("Returns the duration of performance measures", () => {
+    expect(MetricValue.from({ entryType: "measure", startTime: 100, duration: 50 })).toEqual(50);
+  });
+
+  it("Falls back to the 'value' and 'startTime' of plugin metrics", () => {
+    expect(MetricValue.from({ value: 0.1 })).toEqual(0.1);
+    expect(MetricValue.from({ startTime: 10 })).toEqual(10);
+  });
+
+  it("Returns null when a value cannot be derived", () => {
+    expect(MetricValue.from(undefined)).toEqual(null);
+    expect(MetricValue.from("metric")).toEqual(null);
+    expect(MetricValue.from({ time: 1 })).toEqual(null);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * @jest-environment node
+ */
+import { MessageChannel } from "worker_threads";
+import { MetricsBridge } from "../MetricsBridge";
+import { MetricsTestHarness } from "../testing";
+import type { BridgeEndpoint, PerformanceBackend } from "../types";
+
+describe("Metrics Bridge:", () => {
+  let channel: MessageChannel;
+  let worker: MetricsTestHarness;
+  let main: MetricsTestHarness;
+  let bridges: MetricsBridge[];
+
+  const connect = (
+    harness: MetricsTestHarness,
+    port: MessageChannel["port1"],
+    config: ConstructorParameters<typeof MetricsBridge>[2]
+  ) => {
+    const bridge = new MetricsBridge(harness.queue, port as unknown as BridgeEndpoint, config);
+    bridge.connect();
+    bridges.push(bridge);
+    return bridge;
+  };
+
+  beforeEach(() => {
+    channel = new MessageChannel();
+    worker = new MetricsTestHarness({ plugins: { perfLib: {} } });
+    main = new MetricsTestHarness({ plugins: { perfLib: {} } });
+    bridges = [];
+  });
+
+  afterEach(() => {
+    bridges.forEach((bridge) => bridge.disconnect());
+    channel.port1.close();
+    channel.port2.close();
+    worker.destroy();
+    main.destroy();
+  });
+
+  it("Forwards marks to the receiving context tagged with their source", async () => {
+    connect(worker, channel.port1, { source: "worker", forward: ["image-decoded"], timeOrigin: 0 });
+    connect(main, channel.port2, { source: "main", timeOrigin: 0 });
+    const received = main.queue.waitFor("image-decoded", { timeout: 1000 });
+    worker.advance(40);
+    worker.mark("image-decoded");
+    const [mark] = await received;
+    expect(mark).toEqual(
+      expect.objectContaining({
+        name: "image-decoded",
+        entryType: "mark",
+        startTime: 40,
+        source: "worker",
+        bridged: true,
+      })
+    );
+  });
+
+  it("Corrects start times for the difference between time origins", async () => {
+    connect(worker, channel.port1, { source: "worker", forward: ["image-decoded"], timeOrigin: 1500 });
+    connect(main, channel.port2, { source: "main", timeOrigin: 1000 });
+    const received = main.queue.waitFor("image-decoded", { timeout: 1000 });
+    worker.advance(40);
+    worker.mark("image-decoded");
+    const [mark] = await received;
+    expect(mark.startTime).toEqual(540);
+  });
+
+  it("Defaults to the time origin of the MetricsQueue's Performance API", async () => {
+    (worker.performance as PerformanceBackend).timeOrigin = 1500;
+    (main.performance as PerformanceBackend).timeOrigin = 1000;
+    connect(worker, channel.port1, { source: "worker", forward: ["image-decoded"] });
+    connect(main, channel.port2, { source: "main" });
+    const received = main.queue.waitFor("image-decoded", { timeout: 1000 });
+    worker.advance(40);
+    worker.mark("image-decoded");
+    const [mark] = await received;
+    expect(mark.startTime).toEqual(540);
+  });
+
+  it("Forwards events matching patterns and prefixes their names on receipt", async () => {
+    connect(worker, channel.port1, { source: "worker", forward: ["decode-*"], timeOrigin: 0 });
+    connect(main, channel.port2, { source: "main", prefix: "worker:", timeOrigin: 0 });
+    const received = main.queue.waitFor("worker:decode-end", { timeout: 1000 });
+    worker.mark("decode-end");
+    const [mark] = await received;
+    expect(mark).toEqual(expect.objectContaining({ name: "decode-end", source: "worker" }));
+  });
+
+  it("Only re-emits the events it receives", async () => {
+    connect(worker, channel.port1, { source: "worker", forward: ["decode-*"], timeOrigin: 0 });
+    connect(main, channel.port2, { source: "main", receive: ["decode-end"], timeOrigin: 0 });
+    const ignored = jest.fn();
+    main.queue.addEventListener("decode-start", ignored);
+    const received = main.queue.waitFor("decode-end", { timeout: 1000 });
+    worker.mark("decode-start");
+    worker.mark("decode-end");
+    await received;
+    expect(ignored).not.toHaveBeenCalled();
+  });
+
+  it("Does not echo bridged metrics back to their source", async () => {
+    const post = jest.spyOn(channel.port2, "postMessage");
+    connect(worker, channel.port1, { source: "worker", forward: ["image-decoded"], timeOrigin: 0 });
+    connect(main, channel.port2, { source: "main", forward: ["image-decoded"], timeOrigin: 0 });
+    const received = main.queue.waitFor("image-decoded", { timeout: 1000 });
+    worker.mark("image-decoded");
+    await received;
+    await main.flushMicrotasks();
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it("Does not echo scalar payloads back to their source", async () => {
+    const posts = jest.spyOn(channel.port2, "postMessage");
+    const received = jest.fn();
+    connect(worker, channel.port1, { source: "worker", forward: ["ttfb"], timeOrigin: 0 });
+    connect(main, channel.port2, { source: "main", forward: ["t*"], timeOrigin: 0 });
+    main.queue.addEventListener("ttfb", received, { keepAlive: true });
+    worker.queue.plugins.perfLib("ttfb", 800);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(received).toHaveBeenCalledTimes(1);
+    expect(received).toHaveBeenCalledWith(800);
+    expect(posts).not.toHaveBeenCalled();
+    main.queue.plugins.perfLib("ttfb", 600);
+    await main.flushMicrotasks();
+    expect(posts).toHaveBeenCalledTimes(1);
+  });
+
+  it("Requires the origins of Window endpoints", () => {
+    const window = { postMessage: () => {}, addEventListener: () => {} } as BridgeEndpoint & {
+      window?: unknown;
+    };
+    window.window = window;
+    expect(() => new MetricsBridge(main.queue, window)).toThrow(
+      'Bridging to a Window requires the "origins"'
+    );
+    expect(() => new MetricsBridge(main.queue, window, { targetOrigin: "*" })).toThrow();
+    expect(
+      () => new MetricsBridge(main.queue, window, { targetOrigin: "https://app.example" })
+    ).not.toThrow();
+    expect(() => new MetricsBridge(main.queue, window, { origins: ["https://app.example"] })).not.toThrow();
+  });
+
+  it("Only accepts messages from the target origin of a Window", () => {
+    let onMessage: (event: MessageEvent) => void = () => {};
+    const window = {
+      postMessage: () => {},
+      addEventListener: (_: string, listener: (event: MessageEvent) => void) => {
+        onMessage = listener;
+      },
+    } as BridgeEndpoint & { window?: unknown };
+    window.window = window;
+    connect(main, window as unknown as MessageChannel["port1"], { targetOrigin: "https://app.example" });
+    const listener = jest.fn();
+    main.queue.addEventListener("ttfb", listener, { keepAlive: true, passive: false });
+    const data = { type: MetricsBridge.type, source: "frame", event: "ttfb", args: [800], timeOrigin: 0 };
+    onMessage({ data, origin: "https://evil.example" } as MessageEvent);
+    expect(listener).not.toHaveBeenCalled();
+    onMessage({ data, origin: "https://app.example" } as MessageEvent);
+    expect(listener).toHaveBeenCalledWith(800);
+  });
+
+  it("Ignores messages that were not posted by a bridge", async () => {
+    connect(main, channel.port2, { source: "main", timeOrigin: 0 });
+    const listener = jest.fn();
+    main.queue.addEventListener("image-decoded", listener);
+    channel.port1.postMessage({ event: "image-decoded", args: [] });
+    channel.port1.postMessage("image-decoded");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("Stops forwarding once disconnected", async () => {
+    const post = jest.spyOn(channel.port1, "postMessage");
+    const bridge = connect(worker, channel.port1, {
+      source: "worker",
+      forward: ["image-decoded"],
+      timeOrigin: 0,
+    });
+    bridge.disconnect();
+    worker.mark("image-decoded");
+    await worker.flushMicrotasks();
+    expect(post).not.toHaveBeenCalled();
+    expect(worker.queue.inspect().events["image-decoded"] ?? []).toEqual([]);
+  });
+
+  it("Reports errors thrown while posting", async () => {
+    const onError = jest.fn();
+    const error = new Error("DataCloneError");
+    const endpoint: BridgeEndpoint = {
+      postMessage: () => {
+        throw error;
+      },
+    };
+    const bridge = new MetricsBridge(worker.queue, endpoint, { forward: ["image-decoded"], onError });
+    bridge.connect();
+    bridges.push(bridge);
+    worker.mark("image-decoded");
+    await worker.flushMicrotasks();
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+});
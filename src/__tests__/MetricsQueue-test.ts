@@ -1,5 +1,6 @@
 import { MetricsQueue } from "../MetricsQueue";
 import { MetricIndexer } from "../MetricIndexer";
+import { LeakDetector } from "../LeakDetector";
 import { PerfLibMetric } from "../testUtils";
 import type { Listener, PerformanceMarkParameters, PerformanceMeasureParameters } from "../types";
 
@@ -136,6 +137,65 @@ describe("Metrics Queue:", () => {
     });
   });
 
+  describe("Define Measure:", () => {
+    it("Creates the measure using the default performance.measure once both marks are reached in order", async () => {
+      MetricsQueue.init();
+      const measure = jest.spyOn(MetricsQueue as any, "measure");
+      const listener = jest.fn();
+      MetricsQueue.addEventListener("search-latency", listener);
+      MetricsQueue.defineMeasure("search-latency", { start: "search-submit", end: "results-rendered" });
+      performance.mark("results-rendered");
+      performance.mark("search-submit");
+      await new Promise(process.nextTick);
+      expect(measure).not.toHaveBeenCalled();
+      performance.mark("results-rendered");
+      await new Promise(process.nextTick);
+      const params = ["search-latency", { start: "search-submit", end: "results-rendered" }, undefined];
+      expect(measure).toHaveBeenCalledTimes(1);
+      expect(measure).toHaveBeenCalledWith(...params);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(measure.mock.results[0].value, ...params);
+      expect(MetricsQueue["derivedMeasures"]).toEqual({});
+    });
+
+    it("Creates a measure for each pair of marks when repeating", async () => {
+      MetricsQueue.init();
+      const listener = jest.fn();
+      MetricsQueue.addEventListener("search-latency", listener, { keepAlive: true });
+      MetricsQueue.defineMeasure("search-latency", {
+        start: "search-submit",
+        end: "results-rendered",
+        repeat: true,
+      });
+      for (let i = 0; i < 3; i++) {
+        performance.mark("search-submit");
+        performance.mark("results-rendered");
+      }
+      await new Promise(process.nextTick);
+      expect(listener).toHaveBeenCalledTimes(3);
+    });
+
+    it("Stops creating a measure once it's removed", async () => {
+      MetricsQueue.init();
+      const listener = jest.fn();
+      MetricsQueue.addEventListener("search-latency", listener);
+      MetricsQueue.defineMeasure("search-latency", { start: "search-submit", end: "results-rendered" });
+      expect(MetricsQueue.removeMeasure("search-latency")).toEqual(true);
+      expect(MetricsQueue.removeMeasure("search-latency")).toEqual(null);
+      performance.mark("search-submit");
+      performance.mark("results-rendered");
+      await new Promise(process.nextTick);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("Throws when a measure is missing its start or end mark in non-production environments", () => {
+      MetricsQueue.init();
+      expect(() => {
+        MetricsQueue.defineMeasure("search-latency", { start: "search-submit" } as any);
+      }).toThrow(`To define "search-latency", please provide the names of its 'start' and 'end' marks`);
+    });
+  });
+
   describe("On Mark:", () => {
     it("Should bust the queue when event listeners are present for the mark", async () => {
       MetricsQueue.init();
@@ -313,25 +373,448 @@ describe("Metrics Queue:", () => {
       process.env.NODE_ENV = "testing";
     });
 
-    it("Should run a chubbiness when adding an event listener to a preexisting queue in non-production environments", () => {
+    it("Should check for leaks before adding an event listener in non-production environments", () => {
       MetricsQueue.init();
+      const check = jest.spyOn(MetricsQueue["leaks"] as LeakDetector, "check");
       MetricsQueue.addEventListener("example-mark", () => {});
-      const chubbinessCheck = jest.spyOn(MetricsQueue["emitter"]["example-mark"], "chubbinessCheck");
-      MetricsQueue.addEventListener("example-mark", () => {});
-      expect(chubbinessCheck).toHaveBeenCalledWith("example-mark");
+      MetricsQueue.addEventListener("example-*", () => {});
+      expect(check).toHaveBeenCalledWith("example-mark");
+      expect(check).toHaveBeenCalledWith("example-*");
     });
 
-    it("Should not run a chubbiness when adding an event listener to a preexisting queue in production environments", () => {
+    it("Should not check for leaks in production environments", () => {
       process.env.NODE_ENV = "production";
       MetricsQueue.init();
-      MetricsQueue.addEventListener("example-mark", () => {});
-      const chubbinessCheck = jest.spyOn(MetricsQueue["emitter"]["example-mark"], "chubbinessCheck");
-      MetricsQueue.addEventListener("example-mark", () => {});
-      expect(chubbinessCheck).toHaveBeenCalledTimes(0);
+      expect(MetricsQueue["leaks"]).toEqual(null);
       process.env.NODE_ENV = "testing";
     });
   });
 
+  describe("Sticky Listeners:", () => {
+    afterEach(() => {
+      delete (performance as Partial<Performance>).getEntriesByName;
+    });
+
+    it("Replays performance entries recorded before the listener was registered", async () => {
+      const entry = { name: "example-mark", entryType: "mark", startTime: 10, detail: null };
+      performance.getEntriesByName = jest.fn(() => [entry as unknown as PerformanceEntry]);
+      MetricsQueue.init();
+      const listenerSpy = jest.fn();
+      MetricsQueue.addEventListener("example-mark", listenerSpy, { sticky: true });
+      expect(performance.getEntriesByName).toHaveBeenCalledWith("example-mark");
+      expect(listenerSpy).toHaveBeenCalledTimes(0);
+      await new Promise(process.nextTick);
+      expect(listenerSpy).toHaveBeenCalledWith(entry, "example-mark", { detail: null, startTime: 10 });
+      expect(MetricsQueue["emitter"]["example-mark"]).toEqual(undefined);
+    });
+
+    it("Replays plugin events emitted before the listener was registered", () => {
+      MetricsQueue.init({ plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } } });
+      const metric = new PerfLibMetric("example-metric");
+      MetricsQueue.plugins.onPerformanceLibraryEvent("example-metric", metric);
+      const listenerSpy = jest.fn();
+      MetricsQueue.addEventListener("example-metric", listenerSpy, { sticky: true, passive: false });
+      expect(listenerSpy).toHaveBeenCalledWith(metric);
+      expect(MetricsQueue["emitter"]["example-metric"]).toEqual(undefined);
+    });
+
+    it("Retains keepAlive listeners after replaying", () => {
+      MetricsQueue.init({ plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } } });
+      MetricsQueue.plugins.onPerformanceLibraryEvent("example-metric");
+      const listenerSpy = jest.fn();
+      MetricsQueue.addEventListener("example-metric", listenerSpy, {
+        sticky: true,
+        passive: false,
+        keepAlive: true,
+      });
+      expect(listenerSpy).toHaveBeenCalledTimes(1);
+      expect(MetricsQueue["emitter"]["example-metric"].size).toEqual(1);
+    });
+
+    it("Uses the 'sticky' option provided to init by default", () => {
+      MetricsQueue.init({
+        sticky: true,
+        plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } },
+      });
+      MetricsQueue.plugins.onPerformanceLibraryEvent("example-metric");
+      const listenerSpy = jest.fn();
+      MetricsQueue.addEventListener("example-metric", listenerSpy, { passive: false });
+      expect(listenerSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("Does not replay metrics when listeners are not sticky", async () => {
+      MetricsQueue.init({ plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } } });
+      MetricsQueue.plugins.onPerformanceLibraryEvent("example-metric");
+      const listenerSpy = jest.fn();
+      MetricsQueue.addEventListener("example-metric", listenerSpy);
+      await new Promise(process.nextTick);
+      expect(listenerSpy).toHaveBeenCalledTimes(0);
+    });
+  });
+
+  describe("Wait For:", () => {
+    beforeEach(() => {
+      MetricsQueue.init({ plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } } });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("Resolves with the arguments forwarded to listeners", async () => {
+      const metric = new PerfLibMetric("example-metric");
+      const promise = MetricsQueue.waitFor("example-metric");
+      MetricsQueue.plugins.onPerformanceLibraryEvent("example-metric", metric, "stuff");
+      await expect(promise).resolves.toEqual([metric, "stuff"]);
+      await new Promise(process.nextTick);
+      expect(MetricsQueue["emitter"]["example-metric"]).toEqual(undefined);
+    });
+
+    it("Resolves with metrics reached beforehand when 'sticky' is true", async () => {
+      MetricsQueue.plugins.onPerformanceLibraryEvent("example-metric", "stuff");
+      await expect(MetricsQueue.waitFor("example-metric", { sticky: true })).resolves.toEqual(["stuff"]);
+    });
+
+    it("Rejects and removes its listener when the timeout elapses", async () => {
+      jest.useFakeTimers();
+      const promise = MetricsQueue.waitFor("example-metric", { timeout: 100 });
+      expect(MetricsQueue["emitter"]["example-metric"].size).toEqual(1);
+      jest.advanceTimersByTime(100);
+      await expect(promise).rejects.toThrow('Timed out after 100ms waiting for "example-metric"');
+      expect(MetricsQueue["emitter"]["example-metric"]).toEqual(undefined);
+    });
+
+    it("Rejects and removes its listener when the signal aborts", async () => {
+      const controller = new AbortController();
+      const promise = MetricsQueue.waitFor("example-metric", { signal: controller.signal });
+      controller.abort();
+      await expect(promise).rejects.toThrow(
+        'Stopped waiting for "example-metric" - the operation was aborted'
+      );
+      expect(MetricsQueue["emitter"]["example-metric"]).toEqual(undefined);
+    });
+
+    it("Rejects immediately when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+      await expect(MetricsQueue.waitFor("example-metric", { signal: controller.signal })).rejects.toThrow(
+        "the operation was aborted"
+      );
+      expect(MetricsQueue["emitter"]["example-metric"]).toEqual(undefined);
+    });
+  });
+
+  describe("Pattern Listeners:", () => {
+    beforeEach(() => {
+      MetricsQueue.init({ plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } } });
+    });
+
+    it("Invokes RegExp listeners with the event name and the arguments of matching marks", async () => {
+      const listenerSpy = jest.fn();
+      MetricsQueue.addEventListener(/^checkout:/, listenerSpy);
+      performance.mark("search:start");
+      performance.mark("checkout:start");
+      await new Promise(process.nextTick);
+      expect(listenerSpy).toHaveBeenCalledTimes(1);
+      expect(listenerSpy).toHaveBeenCalledWith(
+        "checkout:start",
+        expect.objectContaining({ name: "checkout:start" }),
+        "checkout:start"
+      );
+      expect(MetricsQueue["patterns"]).toEqual({});
+    });
+
+    it("Invokes glob listeners on matching measures and plugin events", async () => {
+      const listenerSpy = jest.fn();
+      MetricsQueue.addEventListener("checkout:step:*", listenerSpy, { keepAlive: true });
+      performance.measure("checkout:step:1", "checkout:start");
+      MetricsQueue.plugins.onPerformanceLibraryEvent("checkout:step:2", "stuff");
+      MetricsQueue.plugins.onPerformanceLibraryEvent("checkout:steps", "stuff");
+      await new Promise(process.nextTick);
+      expect(listenerSpy).toHaveBeenCalledTimes(2);
+      expect(listenerSpy).toHaveBeenCalledWith(
+        "checkout:step:1",
+        expect.objectContaining({ name: "checkout:step:1" }),
+        "checkout:step:1",
+        "checkout:start"
+      );
+      expect(listenerSpy).toHaveBeenCalledWith("checkout:step:2", "stuff");
+      expect(MetricsQueue["patterns"]["checkout:step:*"].size).toEqual(1);
+    });
+
+    it("Invokes exact and pattern listeners on the same event", async () => {
+      const exactSpy = jest.fn();
+      const patternSpy = jest.fn();
+      MetricsQueue.addEventListener("checkout:start", exactSpy);
+      MetricsQueue.addEventListener("checkout:*", patternSpy);
+      await MetricsQueue.onPluginEvent("checkout:start", "stuff");
+      expect(exactSpy).toHaveBeenCalledWith("stuff");
+      expect(patternSpy).toHaveBeenCalledWith("checkout:start", "stuff");
+    });
+
+    it("Does not hold back pattern listeners while exact listeners wait on their schedule", async () => {
+      jest.useFakeTimers();
+      const exactSpy = jest.fn();
+      const patternSpy = jest.fn();
+      MetricsQueue.addEventListener("checkout:done", exactSpy, {
+        schedule: { strategy: "idle", timeout: 5000 },
+      });
+      MetricsQueue.addEventListener("checkout:*", patternSpy, { passive: false });
+      const busted = MetricsQueue.onPluginEvent("checkout:done", "stuff");
+      await Promise.resolve();
+      expect(patternSpy).toHaveBeenCalledWith("checkout:done", "stuff");
+      expect(exactSpy).not.toHaveBeenCalled();
+      jest.runAllTimers();
+      jest.useRealTimers();
+      await busted;
+      expect(exactSpy).toHaveBeenCalledWith("stuff");
+    });
+
+    it("Does not index patterns on the emitter", () => {
+      MetricsQueue.addEventListener(/^checkout:/, () => {});
+      expect(MetricsQueue["emitter"]).toEqual({});
+      expect(Object.keys(MetricsQueue["patterns"])).toEqual(["/^checkout:/"]);
+    });
+
+    it("Removes pattern listeners using the pattern they were registered on", async () => {
+      const listenerSpy = jest.fn();
+      const ID = MetricsQueue.addEventListener(/^checkout:/, listenerSpy);
+      expect(MetricsQueue.removeEventListener(/^checkout:/, ID)).toEqual(true);
+      expect(MetricsQueue.removeEventListener(/^checkout:/, ID)).toEqual(null);
+      await MetricsQueue.onPluginEvent("checkout:start");
+      expect(listenerSpy).toHaveBeenCalledTimes(0);
+      expect(MetricsQueue["patterns"]).toEqual({});
+    });
+  });
+
+  describe("Get Stats:", () => {
+    it("Aggregates the values of each metric reached", () => {
+      MetricsQueue.init({ plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } } });
+      [120, 80, 100].forEach((duration) => {
+        MetricsQueue.plugins.onPerformanceLibraryEvent("route-transition", { duration });
+      });
+      expect(MetricsQueue.getStats("route-transition")).toEqual(
+        expect.objectContaining({ count: 3, min: 80, max: 120, mean: 100, p50: 100, last: 100 })
+      );
+      expect(MetricsQueue.getStats("other-metric")).toEqual(null);
+    });
+
+    it("Provides listeners with aggregates including the current value", () => {
+      MetricsQueue.init({ plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } } });
+      const stats: any[] = [];
+      MetricsQueue.addEventListener(
+        "route-transition",
+        () => stats.push(MetricsQueue.getStats("route-transition")),
+        { keepAlive: true, passive: false }
+      );
+      MetricsQueue.plugins.onPerformanceLibraryEvent("route-transition", 50);
+      MetricsQueue.plugins.onPerformanceLibraryEvent("route-transition", 150);
+      expect(stats.map(({ count, mean }) => [count, mean])).toEqual([
+        [1, 50],
+        [2, 100],
+      ]);
+    });
+
+    it("Retains the number of samples provided to init", () => {
+      MetricsQueue.init({
+        stats: { samples: 2 },
+        plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } },
+      });
+      [300, 100, 200].forEach((value) =>
+        MetricsQueue.plugins.onPerformanceLibraryEvent("list-render", value)
+      );
+      expect(MetricsQueue.getStats("list-render")).toEqual(
+        expect.objectContaining({ count: 3, sampleSize: 2, max: 200 })
+      );
+    });
+
+    it("Does not aggregate metrics when stats are disabled", () => {
+      MetricsQueue.init({
+        stats: false,
+        plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } },
+      });
+      MetricsQueue.plugins.onPerformanceLibraryEvent("list-render", 100);
+      expect(MetricsQueue.getStats("list-render")).toEqual(null);
+    });
+  });
+
+  describe("Inspect:", () => {
+    it("Returns the registered events, patterns and composite listeners", () => {
+      MetricsQueue.init();
+      const markID = MetricsQueue.addEventListener("example-mark", () => {}, { keepAlive: true });
+      const patternID = MetricsQueue.addEventListener("checkout:*", () => {});
+      const compositeID = MetricsQueue.addCompositeListener({ any: ["example-measure"] }, () => {});
+      const { events, patterns, composites } = MetricsQueue.inspect();
+      expect(events["example-mark"]).toEqual([{ ID: markID, config: { keepAlive: true, passive: true } }]);
+      expect(events["example-measure"]).toHaveLength(1);
+      expect(patterns).toEqual({
+        "checkout:*": [{ ID: patternID, config: { keepAlive: false, passive: true } }],
+      });
+      expect(composites).toEqual([compositeID]);
+    });
+  });
+
+  describe("Debug Mode:", () => {
+    beforeEach(() => {
+      jest.spyOn(console, "debug").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("Traces registrations, emissions and listener executions", async () => {
+      MetricsQueue.init({
+        debug: true,
+        plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } },
+      });
+      const ID = MetricsQueue.addEventListener("example-metric", () => {});
+      MetricsQueue.plugins.onPerformanceLibraryEvent("example-metric", 10);
+      await new Promise(process.nextTick);
+      expect(MetricsQueue.getTrace()).toEqual([
+        expect.objectContaining({ type: "register", event: "example-metric", listenerID: ID }),
+        expect.objectContaining({ type: "emit", event: "example-metric", value: 10 }),
+        expect.objectContaining({
+          type: "listener",
+          event: "example-metric",
+          listenerID: ID,
+          duration: expect.any(Number),
+          consumed: true,
+          threw: false,
+        }),
+      ]);
+      expect(console.debug).toHaveBeenCalledTimes(3);
+      MetricsQueue.clearTrace();
+      expect(MetricsQueue.getTrace()).toEqual([]);
+    });
+
+    it("Records the call site of each registration", () => {
+      MetricsQueue.init({ debug: { log: false } });
+      function registerListener() {
+        return MetricsQueue.addEventListener("example-mark", () => {});
+      }
+      registerListener();
+      const [{ callSite }] = MetricsQueue.inspect().events["example-mark"];
+      expect(callSite?.split("\n")[0]).toContain("registerListener");
+      expect(console.debug).not.toHaveBeenCalled();
+    });
+
+    it("Does not trace when debug mode is disabled", async () => {
+      MetricsQueue.init();
+      MetricsQueue.addEventListener("example-mark", () => {});
+      performance.mark("example-mark");
+      await new Promise(process.nextTick);
+      expect(MetricsQueue.getTrace()).toEqual([]);
+      expect(MetricsQueue.inspect().events).toEqual({});
+    });
+  });
+
+  describe("Listener Timing:", () => {
+    let now = 0;
+    const slowListener = jest.fn(() => {
+      now += 80;
+    });
+
+    beforeEach(() => {
+      now = 0;
+      jest.spyOn(Date, "now").mockImplementation(() => now);
+      jest.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("Emits a slow-listener event when a listener exceeds its budget", async () => {
+      MetricsQueue.init({
+        listenerTiming: { budget: 50 },
+        plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } },
+      });
+      const onSlowListener = jest.fn();
+      MetricsQueue.addEventListener("slow-listener", onSlowListener, { passive: false });
+      const ID = MetricsQueue.addEventListener("example-metric", slowListener, { passive: false });
+      MetricsQueue.addEventListener("example-metric", () => {}, { passive: false });
+      MetricsQueue.plugins.onPerformanceLibraryEvent("example-metric", 10);
+      await new Promise(process.nextTick);
+      expect(onSlowListener).toHaveBeenCalledTimes(1);
+      expect(onSlowListener).toHaveBeenCalledWith({
+        event: "example-metric",
+        listenerID: ID,
+        duration: 80,
+        budget: 50,
+      });
+      expect(console.warn).toHaveBeenCalledTimes(1);
+    });
+
+    it("Does not time listeners unless listener timing is enabled", async () => {
+      MetricsQueue.init({ plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } } });
+      const onSlowListener = jest.fn();
+      MetricsQueue.addEventListener("slow-listener", onSlowListener);
+      MetricsQueue.addEventListener("example-metric", slowListener, { passive: false });
+      MetricsQueue.plugins.onPerformanceLibraryEvent("example-metric", 10);
+      await new Promise(process.nextTick);
+      expect(onSlowListener).not.toHaveBeenCalled();
+      expect(console.warn).not.toHaveBeenCalled();
+    });
+
+    it("Does not emit indefinitely when listeners of slow-listener are slow", async () => {
+      MetricsQueue.init({
+        listenerTiming: { warn: false },
+        plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } },
+      });
+      const listener = jest.fn(() => {
+        now += 80;
+      });
+      MetricsQueue.addEventListener("*", listener, { keepAlive: true, passive: false });
+      MetricsQueue.plugins.onPerformanceLibraryEvent("example-metric", 10);
+      await new Promise(process.nextTick);
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenLastCalledWith("slow-listener", expect.objectContaining({ duration: 80 }));
+    });
+
+    it("Records listener execution times using the default performance.measure", async () => {
+      const measure = jest.spyOn(performance, "measure");
+      MetricsQueue.init({
+        listenerTiming: { measure: true, warn: false },
+        plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } },
+      });
+      const onMeasure = jest.fn();
+      MetricsQueue.addEventListener("metrics-queue:*", onMeasure);
+      const ID = MetricsQueue.addEventListener("example-metric", slowListener, { passive: false });
+      MetricsQueue.plugins.onPerformanceLibraryEvent("example-metric", 10);
+      await new Promise(process.nextTick);
+      expect(measure).toHaveBeenCalledWith(`metrics-queue:listener:example-metric:${ID}`, {
+        end: 80,
+        duration: 80,
+        detail: { event: "example-metric", listenerID: ID },
+      });
+      expect(onMeasure).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Tiers:", () => {
+    it("Classifies the user's tier as metrics arrive", async () => {
+      MetricsQueue.init({
+        tiers: { rules: [{ metric: "TTFB", fast: 200, slow: 800 }] },
+        plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } },
+      });
+      const onTierChange = jest.fn();
+      MetricsQueue.addEventListener("tier-change", onTierChange);
+      expect(MetricsQueue.getTier()).toEqual(null);
+      MetricsQueue.plugins.onPerformanceLibraryEvent("TTFB", { startTime: 150 });
+      await new Promise(process.nextTick);
+      expect(MetricsQueue.getTier()).toEqual("fast");
+      expect(onTierChange).toHaveBeenCalledWith(
+        expect.objectContaining({ tier: "fast", previous: null, committed: true })
+      );
+    });
+
+    it("Returns null when tiers are disabled", () => {
+      MetricsQueue.init();
+      expect(MetricsQueue.getTier()).toEqual(null);
+    });
+  });
+
   describe("Remove Event Listener", () => {
     beforeEach(() => {
       MetricsQueue.init();
@@ -381,6 +864,15 @@ describe("Metrics Queue:", () => {
       );
     });
 
+    it("Should throw an error when a batch has neither a size nor a max wait", () => {
+      MetricsQueue.init();
+      expect(() => {
+        MetricsQueue.addEventListener("example-event", () => {}, { batch: {} });
+      }).toThrow(
+        'Batched listeners require a "size" or a "maxWait" - without either, the batch would never be delivered'
+      );
+    });
+
     it("Should throw no errors when a valid event and callback are provided - and when the MetricsQueue is initialized", () => {
       MetricsQueue.init();
       expect(() => {
@@ -389,6 +881,105 @@ describe("Metrics Queue:", () => {
     });
   });
 
+  describe("Error Handling:", () => {
+    const error = new Error("Listener failure");
+    const throwError = () => {
+      throw error;
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("Routes listener errors to the 'onError' handler", async () => {
+      const onError = jest.fn();
+      MetricsQueue.init({ onError });
+      const listenerSpy = jest.fn();
+      const ID = MetricsQueue.addEventListener("example-mark", throwError);
+      MetricsQueue.addEventListener("example-mark", listenerSpy);
+      performance.mark("example-mark");
+      await new Promise(process.nextTick);
+      expect(listenerSpy).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledWith(error, {
+        event: "example-mark",
+        listenerID: ID,
+        phase: "passive-listener",
+      });
+      expect(console.error).toHaveBeenCalledTimes(0);
+    });
+
+    it("Emits listener errors as 'metrics-queue:error' events", async () => {
+      MetricsQueue.init();
+      const errorSpy = jest.fn();
+      MetricsQueue.addEventListener(MetricsQueue.errorEvent, errorSpy);
+      const ID = MetricsQueue.addEventListener("example-mark", throwError, { passive: false });
+      performance.mark("example-mark");
+      await new Promise(process.nextTick);
+      expect(errorSpy).toHaveBeenCalledWith(error, {
+        event: "example-mark",
+        listenerID: ID,
+        phase: "listener",
+      });
+      expect(console.error).toHaveBeenCalledTimes(0);
+    });
+
+    it("Does not re-emit errors thrown by 'metrics-queue:error' listeners", async () => {
+      const onError = jest.fn();
+      MetricsQueue.init({ onError });
+      MetricsQueue.addEventListener(MetricsQueue.errorEvent, throwError, { keepAlive: true });
+      MetricsQueue.addEventListener("example-mark", throwError);
+      performance.mark("example-mark");
+      await new Promise(process.nextTick);
+      await new Promise(process.nextTick);
+      expect(onError).toHaveBeenCalledTimes(2);
+      expect(onError.mock.calls[1][1].event).toEqual(MetricsQueue.errorEvent);
+    });
+
+    it("Does not re-emit errors thrown by pattern listeners matching 'metrics-queue:error'", async () => {
+      const onError = jest.fn();
+      MetricsQueue.init({
+        onError,
+        plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } },
+      });
+      const ID = MetricsQueue.addEventListener("*", throwError, { keepAlive: true, passive: false });
+      MetricsQueue.addEventListener(MetricsQueue.errorEvent, () => {}, { keepAlive: true });
+      MetricsQueue.plugins.onPerformanceLibraryEvent("example-metric", 10);
+      for (let i = 0; i < 5; i++) {
+        await new Promise(process.nextTick);
+      }
+      expect(onError).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenNthCalledWith(1, error, {
+        event: "example-metric",
+        listenerID: ID,
+        phase: "listener",
+      });
+      expect(onError.mock.calls[1][1].event).toEqual(MetricsQueue.errorEvent);
+    });
+
+    it("Logs errors when no handlers are registered", async () => {
+      MetricsQueue.init();
+      MetricsQueue.addEventListener("example-mark", throwError);
+      performance.mark("example-mark");
+      await new Promise(process.nextTick);
+      expect(console.error).toHaveBeenCalledWith(error);
+    });
+
+    it("Reports Performance API failures", () => {
+      const onError = jest.fn();
+      const mark = performance.mark;
+      performance.mark = throwError;
+      MetricsQueue.init({ onError });
+      performance.mark("example-mark");
+      MetricsQueue.destroy();
+      performance.mark = mark;
+      expect(onError).toHaveBeenCalledWith(error, { event: "example-mark", phase: "performance-api" });
+    });
+  });
+
   describe("Safety Wrap:", () => {
     it("Wraps calls to performance api methods in a try-catch statement and returns the value of the passed function", () => {
       const func = (args: IArguments) => args;
@@ -414,6 +1005,43 @@ describe("Metrics Queue:", () => {
     });
   });
 
+  describe("Rate Limited Listeners:", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      MetricsQueue.init({ plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } } });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("Removes the indexers emptied by debounced and batched listeners", async () => {
+      MetricsQueue.addEventListener("debounced-metric", () => {}, { passive: false, debounce: 100 });
+      MetricsQueue.addEventListener("batched-*", () => {}, { passive: false, batch: { maxWait: 100 } });
+      MetricsQueue.plugins.onPerformanceLibraryEvent("debounced-metric", 10);
+      MetricsQueue.plugins.onPerformanceLibraryEvent("batched-metric", 10);
+      await Promise.resolve();
+      jest.advanceTimersByTime(100);
+      await Promise.resolve();
+      expect(MetricsQueue["emitter"]).toEqual({});
+      expect(MetricsQueue["patterns"]).toEqual({});
+    });
+
+    it("Cancels pending debounced and batched listeners when destroyed", async () => {
+      const debounced = jest.fn();
+      const batched = jest.fn();
+      MetricsQueue.addEventListener("example-metric", debounced, { passive: false, debounce: 100 });
+      MetricsQueue.addEventListener("example-*", batched, { passive: false, batch: { maxWait: 100 } });
+      MetricsQueue.plugins.onPerformanceLibraryEvent("example-metric", 10);
+      await Promise.resolve();
+      MetricsQueue.destroy();
+      jest.advanceTimersByTime(100);
+      expect(debounced).not.toHaveBeenCalled();
+      expect(batched).not.toHaveBeenCalled();
+      expect(jest.getTimerCount()).toEqual(0);
+    });
+  });
+
   describe("Destroy:", () => {
     it("Should reset hacked performance API methods", () => {
       const mark = performance.mark;
@@ -430,10 +1058,13 @@ describe("Metrics Queue:", () => {
       MetricsQueue.init();
       MetricsQueue.destroy();
       expect(MetricsQueue.enabled).toEqual(false);
+      expect(MetricsQueue["sticky"]).toEqual(false);
       expect(MetricsQueue["usePerformanceAPI"]).toEqual(true);
       expect(MetricsQueue["mark"]).toEqual(null);
       expect(MetricsQueue["measure"]).toEqual(null);
       expect(MetricsQueue["emitter"]).toEqual({});
+      expect(MetricsQueue["pluginHistory"]).toEqual({});
+      expect(MetricsQueue["onError"]).toEqual(null);
     });
   });
 });
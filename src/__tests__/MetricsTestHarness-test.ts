@@ -0,0 +1,142 @@
+import { MetricsQueue } from "../MetricsQueue";
+import { MetricsTestHarness, expectMetric, flushMicrotasks } from "../testing";
+
+describe("Metrics Test Harness:", () => {
+  let harness: MetricsTestHarness<any, "perfLib">;
+
+  beforeEach(() => {
+    harness = new MetricsTestHarness({ plugins: { perfLib: { processAfterCallStack: true } } });
+  });
+
+  afterEach(() => {
+    harness.destroy();
+  });
+
+  describe("Simulations:", () => {
+    it("Emits marks at the time of the fake clock", async () => {
+      const listener = jest.fn();
+      harness.queue.addEventListener("home-page-interactive", listener);
+      harness.advance(1200);
+      harness.mark("home-page-interactive");
+      await harness.flushMicrotasks();
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ entryType: "mark", startTime: 1200 }),
+        "home-page-interactive",
+        undefined
+      );
+    });
+
+    it("Emits measures with the duration provided", async () => {
+      const listener = jest.fn();
+      harness.queue.addEventListener("search-latency", listener);
+      harness.advance(500);
+      harness.measure("search-latency", { duration: 120, detail: { query: "shoes" } });
+      await harness.flushMicrotasks();
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ startTime: 380, duration: 120, detail: { query: "shoes" } }),
+        "search-latency",
+        { end: 500, duration: 120, detail: { query: "shoes" } }
+      );
+    });
+
+    it("Emits plugin metrics with the duration provided", async () => {
+      const listener = jest.fn();
+      harness.queue.addEventListener("checkout", listener);
+      harness.advance(100);
+      harness.emit("perfLib", "checkout", { duration: 40 });
+      await harness.flushMicrotasks();
+      expect(listener).toHaveBeenCalledWith({
+        name: "checkout",
+        startTime: 60,
+        duration: 40,
+        detail: undefined,
+      });
+    });
+
+    it("Resets the MetricsQueue and the fake clock", async () => {
+      harness.queue.addEventListener("example-mark", () => {}, { keepAlive: true });
+      harness.advance(100);
+      harness.reset();
+      expect(harness.performance.now()).toEqual(0);
+      expect(harness.queue.inspect().events).toEqual({});
+      expect(harness.queue.enabled).toEqual(true);
+    });
+  });
+
+  describe("Expect Metric:", () => {
+    it("Resolves when a metric fires within the timeout", async () => {
+      const assertion = harness.expectMetric("home-page-interactive").toFireWithin(50);
+      harness.mark("home-page-interactive");
+      await expect(assertion).resolves.toEqual([
+        expect.objectContaining({ startTime: 0 }),
+        "home-page-interactive",
+        undefined,
+      ]);
+    });
+
+    it("Resolves when a metric fired before the assertion", async () => {
+      harness.mark("home-page-interactive");
+      await harness.flushMicrotasks();
+      await expect(harness.expectMetric("home-page-interactive").toFireWithin(50)).resolves.toBeDefined();
+    });
+
+    it("Advances the fake clock and rejects when a metric doesn't fire within the timeout", async () => {
+      await expect(harness.expectMetric("home-page-interactive").toFireWithin(10)).rejects.toThrow(
+        'Expected "home-page-interactive" to fire within 10ms, but it was never reached'
+      );
+      expect(harness.performance.now()).toEqual(10);
+      expect(harness.queue.inspect().events).toEqual({});
+    });
+
+    it("Resolves when a metric is reached by a fake timer before the timeout", async () => {
+      harness.performance.setTimeout(() => harness.mark("home-page-interactive"), 9);
+      await expect(harness.expectMetric("home-page-interactive").toFireWithin(10)).resolves.toEqual([
+        expect.objectContaining({ startTime: 9 }),
+        "home-page-interactive",
+        undefined,
+      ]);
+    });
+
+    it("Rejects when a metric is reached by a fake timer after the timeout", async () => {
+      harness.performance.setTimeout(() => harness.mark("home-page-interactive"), 11);
+      await expect(harness.expectMetric("home-page-interactive").toFireWithin(10)).rejects.toThrow(
+        'Expected "home-page-interactive" to fire within 10ms, but it was never reached'
+      );
+    });
+
+    it("Rethrows errors that aren't timeouts", async () => {
+      harness.destroy();
+      await expect(harness.expectMetric("home-page-interactive").toFireWithin(10)).rejects.toThrow(
+        "Please initialize the Metrics Queue before registering performance listeners"
+      );
+    });
+
+    it("Asserts that a metric has fired", async () => {
+      await expect(harness.expectMetric("home-page-interactive").toHaveFired()).rejects.toThrow(
+        'Expected "home-page-interactive" to have fired, but it was never reached'
+      );
+      harness.emit("perfLib", "checkout", { duration: 40 });
+      await harness.flushMicrotasks();
+      await expect(harness.expectMetric("checkout").toHaveFired()).resolves.toEqual([
+        expect.objectContaining({ duration: 40 }),
+      ]);
+    });
+
+    it("Asserts on the value of a metric", async () => {
+      harness.measure("search-latency", { duration: 120 });
+      await harness.flushMicrotasks();
+      await expect(harness.expectMetric("search-latency").toHaveValueBelow(200)).resolves.toBeDefined();
+      await expect(harness.expectMetric("search-latency").toHaveValueBelow(100)).rejects.toThrow(
+        'Expected "search-latency" to have a value below 100, but received 120'
+      );
+    });
+
+    it("Asserts on the global MetricsQueue by default", async () => {
+      MetricsQueue.init({ usePerformanceAPI: false, plugins: { perfLib: {} } });
+      MetricsQueue.plugins.perfLib("checkout", 10);
+      await flushMicrotasks();
+      await expect(expectMetric("checkout").toHaveFired()).resolves.toEqual([10]);
+      MetricsQueue.destroy();
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { PageLifecycle } from "../PageLifecycle";
+
+describe("Page Lifecycle:", () => {
+  const setVisibility = (visibilityState: DocumentVisibilityState) => {
+    Object.defineProperty(document, "visibilityState", { configurable: true, value: visibilityState });
+    document.dispatchEvent(new Event("visibilitychange"));
+  };
+
+  afterEach(() => {
+    Object.defineProperty(document, "visibilityState", { configurable: true, value: "visible" });
+  });
+
+  it("Invokes the callback when the page is hidden or unloaded", () => {
+    const callback = jest.fn();
+    const unsubscribe = PageLifecycle.onHidden(callback);
+    setVisibility("visible");
+    expect(callback).not.toHaveBeenCalled();
+    setVisibility("hidden");
+    window.dispatchEvent(new Event("pagehide"));
+    expect(callback).toHaveBeenCalledTimes(2);
+    unsubscribe();
+  });
+
+  it("Stops invoking the callback once unsubscribed", () => {
+    const callback = jest.fn();
+    PageLifecycle.onHidden(callback)();
+    setVisibility("hidden");
+    window.dispatchEvent(new Event("pagehide"));
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,54 @@
+import { PatternIndexer } from "../PatternIndexer";
+
+describe("Pattern Indexer:", () => {
+  describe("Is Pattern:", () => {
+    it("Treats RegExps and names containing '*' as patterns", () => {
+      expect(PatternIndexer.isPattern(/^checkout:/)).toEqual(true);
+      expect(PatternIndexer.isPattern("checkout:step:*")).toEqual(true);
+      expect(PatternIndexer.isPattern("checkout:step:1")).toEqual(false);
+    });
+  });
+
+  describe("To Key:", () => {
+    it("Indexes globs by their source and RegExps by their string representation", () => {
+      expect(PatternIndexer.toKey("checkout:step:*")).toEqual("checkout:step:*");
+      expect(PatternIndexer.toKey(/^checkout:/i)).toEqual("/^checkout:/i");
+    });
+  });
+
+  describe("Matches:", () => {
+    it("Matches entire event names against globs", () => {
+      const indexer = new PatternIndexer("checkout:step:*");
+      expect(indexer.matches("checkout:step:1")).toEqual(true);
+      expect(indexer.matches("checkout:step:")).toEqual(true);
+      expect(indexer.matches("checkout:steps")).toEqual(false);
+      expect(indexer.matches("pre-checkout:step:1")).toEqual(false);
+    });
+
+    it("Escapes RegExp syntax within globs", () => {
+      const indexer = new PatternIndexer("search.results(*)");
+      expect(indexer.matches("search.results(10)")).toEqual(true);
+      expect(indexer.matches("search-results(10)")).toEqual(false);
+    });
+
+    it("Matches RegExps consistently regardless of their flags", () => {
+      const indexer = new PatternIndexer(/^checkout:/g);
+      expect(indexer.matches("checkout:start")).toEqual(true);
+      expect(indexer.matches("checkout:start")).toEqual(true);
+      expect(indexer.matches("search:start")).toEqual(false);
+    });
+  });
+
+  describe("Add:", () => {
+    it("Evaluates listener conditions against the arguments following the event name", async () => {
+      const indexer = new PatternIndexer("checkout:*");
+      const listener = jest.fn();
+      indexer.add(listener, { when: { durationAbove: 100 }, keepAlive: true });
+      await indexer.bust("checkout:fast", { duration: 50 });
+      expect(listener).toHaveBeenCalledTimes(0);
+      const metric = { duration: 150 };
+      await indexer.bust("checkout:slow", metric);
+      expect(listener).toHaveBeenCalledWith("checkout:slow", metric);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+import { performance } from "perf_hooks";
+import { PerformanceBackends } from "../PerformanceBackends";
+import { useMetricsQueues } from "../testUtils";
+import type { PerformanceBackend } from "../types";
+
+describe("Performance Backends:", () => {
+  const create = useMetricsQueues();
+
+  afterEach(() => {
+    performance.clearMarks();
+  });
+
+  it("Runs outside of a browser environment", () => {
+    expect(typeof window).toEqual("undefined");
+  });
+
+  it("Resolves the provided backend before the global Performance API", () => {
+    const backend = { ...PerformanceBackends.noop };
+    expect(PerformanceBackends.resolve(backend)).toBe(backend);
+    expect(PerformanceBackends.resolve()).toBe(global.performance);
+  });
+
+  it("Falls back to the no-op backend when no Performance API exists", () => {
+    const { performance: original } = global;
+    Object.defineProperty(global, "performance", {
+      configurable: true,
+      writable: true,
+      value: undefined,
+    });
+    try {
+      expect(PerformanceBackends.resolve()).toBe(PerformanceBackends.noop);
+      expect(PerformanceBackends.isOperable(PerformanceBackends.noop)).toEqual(false);
+    } finally {
+      Object.defineProperty(global, "performance", { configurable: true, writable: true, value: original });
+    }
+  });
+
+  it("Subscribes to marks and measures created with perf_hooks", async () => {
+    const { mark, measure } = performance;
+    const queue = create({ performance: performance as unknown as PerformanceBackend });
+    const onMark = jest.fn();
+    const onMeasure = jest.fn();
+    queue.addEventListener("server-start", onMark);
+    queue.addEventListener("server-duration", onMeasure);
+    expect(performance.mark).not.toBe(mark);
+    performance.mark("server-start");
+    performance.mark("server-end");
+    performance.measure("server-duration", "server-start", "server-end");
+    await new Promise(process.nextTick);
+    expect(onMark).toHaveBeenCalledWith(expect.objectContaining({ name: "server-start" }), "server-start");
+    expect(onMeasure).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "server-duration" }),
+      "server-duration",
+      "server-start",
+      "server-end"
+    );
+    queue.destroy();
+    expect(performance.mark).toBe(mark);
+    expect(performance.measure).toBe(measure);
+  });
+
+  it("Reads recorded metrics from the provided backend", () => {
+    const queue = create({ performance: performance as unknown as PerformanceBackend });
+    performance.mark("server-ready");
+    expect(queue["getRecordedMetric"]("server-ready")).toEqual([
+      expect.objectContaining({ name: "server-ready" }),
+      "server-ready",
+      { startTime: expect.any(Number), detail: null },
+    ]);
+  });
+
+  it("Operates on plugin events alone using the no-op backend", async () => {
+    const queue = create({
+      performance: PerformanceBackends.noop,
+      plugins: { serverLib: { processAfterCallStack: false } },
+    });
+    const listener = jest.fn();
+    queue.addEventListener("plugin-metric", listener);
+    queue.plugins.serverLib("plugin-metric", 1);
+    await new Promise(process.nextTick);
+    expect(listener).toHaveBeenCalledWith(1);
+    expect(queue["getRecordedMetric"]("missing-metric")).toEqual(null);
+    expect(PerformanceBackends.noop.mark).not.toBe(queue["markMiddleware"]);
+  });
+});
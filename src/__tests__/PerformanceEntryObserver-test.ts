@@ -0,0 +1,132 @@
+import { MetricsQueue } from "../MetricsQueue";
+import { FakePerformanceObserver } from "../testUtils";
+import { PerformanceEntryObserver } from "../PerformanceEntryObserver";
+
+Object.defineProperty(window, "performance", {
+  writable: true,
+  value: {
+    now: () => Date.now(),
+    mark: (name: string) => ({ name, time: Date.now() }),
+    measure: (measure: string) => ({ name: measure, time: Date.now() }),
+  },
+});
+
+describe("Performance Entry Observer:", () => {
+  beforeEach(() => {
+    MetricsQueue.destroy();
+    FakePerformanceObserver.install();
+  });
+
+  afterEach(() => {
+    FakePerformanceObserver.uninstall();
+  });
+
+  describe("Observe:", () => {
+    it("Observes each default entry type with buffering", () => {
+      const observer = new PerformanceEntryObserver(() => {});
+      expect(observer.observe()).toEqual(true);
+      const [fake] = FakePerformanceObserver.instances;
+      expect(fake.options).toEqual(
+        PerformanceEntryObserver.entryTypes.map((type) => ({ type, buffered: true }))
+      );
+    });
+
+    it("Ignores entry types that are not supported", () => {
+      const observer = new PerformanceEntryObserver(() => {});
+      observer.observe({ entryTypes: ["mark", "visibility-state"] });
+      expect(FakePerformanceObserver.instances[0].types).toEqual(["mark"]);
+    });
+
+    it("Forwards each observed entry to its callback", () => {
+      const callback = jest.fn();
+      const observer = new PerformanceEntryObserver(callback);
+      observer.observe();
+      const entries = [
+        { name: "a", entryType: "mark" },
+        { name: "b", entryType: "measure" },
+      ];
+      FakePerformanceObserver.emit(entries);
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(callback.mock.calls[0][0]).toEqual(entries[0]);
+    });
+
+    it("Returns false when PerformanceObservers are not supported", () => {
+      FakePerformanceObserver.uninstall();
+      const observer = new PerformanceEntryObserver(() => {});
+      expect(PerformanceEntryObserver.supported).toEqual(false);
+      expect(observer.observe()).toEqual(false);
+    });
+
+    it("Disconnects", () => {
+      const observer = new PerformanceEntryObserver(() => {});
+      observer.observe();
+      observer.disconnect();
+      expect(FakePerformanceObserver.instances[0].connected).toEqual(false);
+    });
+  });
+
+  describe("Integration with the MetricsQueue:", () => {
+    it("Leaves the Performance API in tact in observer mode", () => {
+      const mark = performance.mark;
+      const measure = performance.measure;
+      MetricsQueue.init({ observer: true });
+      expect(performance.mark).toEqual(mark);
+      expect(performance.measure).toEqual(measure);
+      expect(MetricsQueue["observer"]).toBeInstanceOf(PerformanceEntryObserver);
+    });
+
+    it("Routes marks and measures to their listeners", async () => {
+      MetricsQueue.init({ observer: true });
+      const markSpy = jest.fn();
+      const measureSpy = jest.fn();
+      MetricsQueue.addEventListener("example-mark", markSpy);
+      MetricsQueue.addEventListener("example-measure", measureSpy);
+      const mark = { name: "example-mark", entryType: "mark", startTime: 5, detail: null };
+      const measure = {
+        name: "example-measure",
+        entryType: "measure",
+        startTime: 5,
+        duration: 10,
+        detail: null,
+      };
+      FakePerformanceObserver.emit([mark, measure]);
+      await new Promise(process.nextTick);
+      expect(markSpy).toHaveBeenCalledWith(mark, "example-mark", { detail: null, startTime: 5 });
+      expect(measureSpy).toHaveBeenCalledWith(
+        measure,
+        "example-measure",
+        { detail: null, start: 5, duration: 10 },
+        undefined
+      );
+    });
+
+    it("Routes browser-generated entries to listeners registered on their names", async () => {
+      MetricsQueue.init({ observer: true });
+      const listenerSpy = jest.fn();
+      MetricsQueue.addEventListener("first-contentful-paint", listenerSpy);
+      const paint = { name: "first-contentful-paint", entryType: "paint", startTime: 300 };
+      FakePerformanceObserver.emit([paint]);
+      await new Promise(process.nextTick);
+      expect(listenerSpy).toHaveBeenCalledWith(paint);
+      expect(MetricsQueue["emitter"]["first-contentful-paint"]).toEqual(undefined);
+    });
+
+    it("Only observes the configured entry types", () => {
+      MetricsQueue.init({ observer: { entryTypes: ["paint"], buffered: false } });
+      expect(FakePerformanceObserver.instances[0].options).toEqual([{ type: "paint", buffered: false }]);
+    });
+
+    it("Disconnects when destroyed", () => {
+      MetricsQueue.init({ observer: true });
+      MetricsQueue.destroy();
+      expect(FakePerformanceObserver.instances[0].connected).toEqual(false);
+      expect(MetricsQueue["observer"]).toEqual(null);
+    });
+
+    it("Falls back to middleware when PerformanceObservers are not supported", () => {
+      FakePerformanceObserver.uninstall();
+      MetricsQueue.init({ observer: true });
+      expect(performance.mark).toEqual(MetricsQueue["markMiddleware"]);
+    });
+  });
+});
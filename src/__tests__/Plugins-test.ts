@@ -0,0 +1,115 @@
+import { PerfLib, createPerfLibPlugin, useMetricsQueues } from "../testUtils";
+
+describe("Plugins:", () => {
+  const create = useMetricsQueues();
+
+  beforeEach(() => {
+    jest.spyOn(Date, "now").mockReturnValue(1000);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("Setup:", () => {
+    it("Calls setup with the MetricsQueue and the plugin's emitter once each plugin is registered", () => {
+      const setup = jest.fn();
+      const queue = create({
+        usePerformanceAPI: false,
+        plugins: { first: { setup }, second: {} },
+      });
+      expect(setup).toHaveBeenCalledWith(queue, queue.plugins.first);
+      expect(typeof queue.plugins.second).toEqual("function");
+    });
+
+    it("Reports errors thrown during setup", () => {
+      const onError = jest.fn();
+      const error = new Error("setup error");
+      create({
+        onError,
+        usePerformanceAPI: false,
+        plugins: {
+          broken: {
+            setup: () => {
+              throw error;
+            },
+          },
+        },
+      });
+      expect(onError).toHaveBeenCalledWith(error, { event: "broken", phase: "plugin" });
+    });
+  });
+
+  describe("Teardown:", () => {
+    it("Calls each plugin's teardown when the MetricsQueue is destroyed", () => {
+      const teardown = jest.fn();
+      const queue = create({ usePerformanceAPI: false, plugins: { first: { teardown } } });
+      expect(teardown).toHaveBeenCalledTimes(0);
+      queue.destroy();
+      expect(teardown).toHaveBeenCalledTimes(1);
+      queue.destroy();
+      expect(teardown).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Normalize:", () => {
+    it("Maps the arguments of plugin events before they're emitted", async () => {
+      const queue = create({
+        usePerformanceAPI: false,
+        plugins: { lib: { normalize: ([metric]) => [{ duration: metric.elapsed }] } },
+      });
+      const listener = jest.fn();
+      queue.addEventListener("example-metric", listener);
+      queue.plugins.lib("example-metric", { elapsed: 25 });
+      await new Promise(process.nextTick);
+      expect(listener).toHaveBeenCalledWith({ duration: 25 });
+      expect(queue.getStats("example-metric")).toEqual(expect.objectContaining({ last: 25 }));
+    });
+
+    it("Reports and drops events that fail to normalize", async () => {
+      const onError = jest.fn();
+      const queue = create({
+        onError,
+        usePerformanceAPI: false,
+        plugins: { lib: { normalize: ([metric]) => [metric.missing.property] } },
+      });
+      const listener = jest.fn();
+      queue.addEventListener("example-metric", listener);
+      queue.plugins.lib("example-metric", {});
+      await new Promise(process.nextTick);
+      expect(listener).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(expect.any(TypeError), {
+        event: "example-metric",
+        phase: "plugin",
+      });
+    });
+  });
+
+  describe("Reference Adapter:", () => {
+    it("Emits the library's metrics in a common shape", async () => {
+      const library = new PerfLib();
+      const queue = create({ usePerformanceAPI: false, plugins: { perfLib: createPerfLibPlugin(library) } });
+      const listener = jest.fn();
+      queue.addEventListener("search-results", listener);
+      const metric = library.start("search-results");
+      (Date.now as jest.Mock).mockReturnValue(1250);
+      metric.stop();
+      expect(listener).not.toHaveBeenCalled();
+      await new Promise(process.nextTick);
+      expect(listener).toHaveBeenCalledWith({
+        name: "search-results",
+        startTime: 1000,
+        duration: 250,
+        detail: { source: "perf-lib" },
+      });
+    });
+
+    it("Unsubscribes from the library when the MetricsQueue is destroyed", () => {
+      const library = new PerfLib();
+      const queue = create({ usePerformanceAPI: false, plugins: { perfLib: createPerfLibPlugin(library) } });
+      expect(library.subscribers.size).toEqual(1);
+      queue.destroy();
+      expect(library.subscribers.size).toEqual(0);
+    });
+  });
+});
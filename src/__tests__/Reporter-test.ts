@@ -0,0 +1,177 @@
+import { Reporter } from "../Reporter";
+import { Transports } from "../Transports";
+import { createMetricsQueue } from "../createMetricsQueue";
+import type { ReporterConfig } from "../types";
+
+describe("Reporter:", () => {
+  const onError = jest.fn();
+  const flushPromises = async () => {
+    for (let i = 0; i < 10; i++) {
+      await Promise.resolve();
+    }
+  };
+  let reporters: Reporter[] = [];
+  const create = (config: ReporterConfig) => {
+    const reporter = new Reporter(config, onError);
+    reporter.start();
+    reporters.push(reporter);
+    return reporter;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(1000);
+    onError.mockReset();
+  });
+
+  afterEach(() => {
+    reporters.forEach((reporter) => reporter.stop());
+    reporters = [];
+    jest.useRealTimers();
+  });
+
+  describe("To Reported Metric:", () => {
+    it("Serializes performance entries and plugin metrics", () => {
+      const mark = { entryType: "mark", startTime: 10, detail: { route: "/" } };
+      expect(Reporter.toReportedMetric("example-mark", [mark, "example-mark"])).toEqual({
+        name: "example-mark",
+        type: "mark",
+        value: 10,
+        detail: { route: "/" },
+        timestamp: 1000,
+      });
+      expect(Reporter.toReportedMetric("example-metric", [25])).toEqual({
+        name: "example-metric",
+        type: "plugin",
+        value: 25,
+        timestamp: 1000,
+      });
+    });
+  });
+
+  describe("Batching:", () => {
+    it("Sends a batch once it reaches its maximum size", () => {
+      const transport = Transports.memory();
+      const reporter = create({ transport, maxBatchSize: 2 });
+      reporter.collect("first", [1]);
+      expect(transport.batches).toHaveLength(0);
+      reporter.collect("second", [2]);
+      expect(transport.batches).toEqual([
+        [
+          { name: "first", type: "plugin", value: 1, timestamp: 1000 },
+          { name: "second", type: "plugin", value: 2, timestamp: 1000 },
+        ],
+      ]);
+      expect(reporter.pending).toEqual(0);
+    });
+
+    it("Sends a batch once it reaches its maximum age", () => {
+      const transport = Transports.memory();
+      const reporter = create({ transport, maxBatchAge: 1000 });
+      reporter.collect("first", [1]);
+      jest.advanceTimersByTime(500);
+      reporter.collect("second", [2]);
+      jest.advanceTimersByTime(499);
+      expect(transport.batches).toHaveLength(0);
+      jest.advanceTimersByTime(1);
+      expect(transport.batches).toHaveLength(1);
+      expect(transport.batches[0]).toHaveLength(2);
+    });
+
+    it("Splits flushed metrics into batches of the maximum size", async () => {
+      const transport = Transports.memory();
+      const reporter = create({ transport, maxBatchSize: 2, maxBatchAge: 1000 });
+      reporter["queue"] = [1, 2, 3].map((value) => Reporter.toReportedMetric("metric", [value]));
+      await reporter.flush();
+      expect(transport.batches.map((batch) => batch.length)).toEqual([2, 1]);
+    });
+
+    it("Skips metrics rejected by the filter", () => {
+      const transport = Transports.memory();
+      const reporter = create({ transport, maxBatchSize: 1, filter: ({ type }) => type !== "plugin" });
+      reporter.collect("example-metric", [1]);
+      reporter.collect("example-mark", [{ entryType: "mark", startTime: 1 }]);
+      expect(transport.batches).toEqual([[expect.objectContaining({ name: "example-mark" })]]);
+    });
+
+    it("Flushes when the page is hidden", () => {
+      const transport = Transports.memory();
+      const reporter = create({ transport });
+      reporter.collect("example-metric", [1]);
+      window.dispatchEvent(new Event("pagehide"));
+      expect(transport.batches).toHaveLength(1);
+    });
+  });
+
+  describe("Retries:", () => {
+    it("Retries failed batches with an exponential backoff", async () => {
+      const transport = jest
+        .fn()
+        .mockRejectedValueOnce(new Error("offline"))
+        .mockReturnValueOnce(false)
+        .mockReturnValue(true);
+      const reporter = create({ transport, retryDelay: 100 });
+      reporter.collect("example-metric", [1]);
+      const promise = reporter.flush();
+      await flushPromises();
+      expect(transport).toHaveBeenCalledTimes(1);
+      jest.advanceTimersByTime(100);
+      await flushPromises();
+      expect(transport).toHaveBeenCalledTimes(2);
+      jest.advanceTimersByTime(199);
+      expect(transport).toHaveBeenCalledTimes(2);
+      jest.advanceTimersByTime(1);
+      await promise;
+      expect(transport).toHaveBeenCalledTimes(3);
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it("Reports batches that fail to send after each retry", async () => {
+      const transport = jest.fn(() => false);
+      const reporter = create({ transport, retries: 1, retryDelay: 100 });
+      reporter.collect("example-metric", [1]);
+      const promise = reporter.flush();
+      await flushPromises();
+      jest.advanceTimersByTime(100);
+      await promise;
+      expect(transport).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenCalledWith(new Error("The transport failed to send a batch of 1 metrics"), {
+        event: "example-metric",
+        phase: "transport",
+      });
+    });
+
+    it("Discards pending retries when stopped", async () => {
+      const transport = jest.fn(() => false);
+      const reporter = create({ transport, retryDelay: 100 });
+      reporter.collect("example-metric", [1]);
+      void reporter.flush();
+      await flushPromises();
+      reporter.stop();
+      jest.advanceTimersByTime(10000);
+      expect(transport).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Integration with the MetricsQueue:", () => {
+    it("Reports the metrics reached by the MetricsQueue", async () => {
+      const transport = Transports.memory();
+      const queue = createMetricsQueue({
+        usePerformanceAPI: false,
+        reporter: { transport },
+        plugins: { onPerformanceLibraryEvent: { processAfterCallStack: false } },
+      });
+      queue.addEventListener(queue.errorEvent, () => {});
+      queue.addEventListener("example-metric", () => {
+        throw new Error("listener error");
+      });
+      queue.plugins.onPerformanceLibraryEvent("example-metric", { duration: 10, detail: "home" });
+      await flushPromises();
+      await queue.flush();
+      expect(transport.batches).toEqual([
+        [{ name: "example-metric", type: "plugin", value: 10, detail: "home", timestamp: 1000 }],
+      ]);
+      queue.destroy();
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { RollingWindow } from "../RollingWindow";
+
+describe("Rolling Window:", () => {
+  it("Returns null stats before a value is recorded", () => {
+    expect(new RollingWindow().toStats()).toEqual(null);
+  });
+
+  it("Aggregates the values recorded", () => {
+    const window = new RollingWindow();
+    [5, 1, 9, 3, 7].forEach((value) => window.add(value));
+    expect(window.toStats()).toEqual({
+      count: 5,
+      sampleSize: 5,
+      last: 7,
+      min: 1,
+      max: 9,
+      mean: 5,
+      p50: 5,
+      p75: 7,
+      p90: 9,
+      p95: 9,
+      p99: 9,
+    });
+  });
+
+  it("Retains only the most recent values", () => {
+    const window = new RollingWindow(3);
+    [100, 1, 2, 3].forEach((value) => window.add(value));
+    expect(window.sampleSize).toEqual(3);
+    expect(window.toStats()).toEqual(expect.objectContaining({ count: 4, max: 3, mean: 2 }));
+  });
+
+  it("Computes nearest-rank percentiles", () => {
+    const values = [10, 9, 8, 7, 6, 5, 4, 3, 2, 1];
+    expect(RollingWindow.percentile(values, 50)).toEqual(5);
+    expect(RollingWindow.percentile(values, 90)).toEqual(9);
+    expect(RollingWindow.percentile(values, 0)).toEqual(1);
+    expect(values[0]).toEqual(10);
+  });
+});
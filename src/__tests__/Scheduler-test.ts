@@ -0,0 +1,242 @@
+import { Scheduler } from "../Scheduler";
+import { MetricIndexer } from "../MetricIndexer";
+import { createMetricsQueue } from "../createMetricsQueue";
+
+describe("Scheduler:", () => {
+  const scope = globalThis as any;
+  const flushPromises = async () => {
+    for (let i = 0; i < 10; i++) {
+      await Promise.resolve();
+    }
+  };
+  const stub = <T>(API: string, value: T) => {
+    const original = scope[API];
+    scope[API] = value;
+    restore.push(() => {
+      scope[API] = original;
+    });
+    return value;
+  };
+  let restore: (() => void)[] = [];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // Strategies fall back to setTimeout unless an API is stubbed
+    stub("requestAnimationFrame", undefined);
+  });
+
+  afterEach(() => {
+    restore.forEach((fn) => fn());
+    restore = [];
+    jest.useRealTimers();
+  });
+
+  describe("To Options:", () => {
+    it("Normalizes strategies into schedule options", () => {
+      expect(Scheduler.toOptions("idle")).toEqual({ strategy: "idle" });
+      expect(Scheduler.toOptions({ strategy: "idle", timeout: 100 })).toEqual({
+        strategy: "idle",
+        timeout: 100,
+      });
+    });
+  });
+
+  describe("Run:", () => {
+    it("Executes synchronous tasks immediately", async () => {
+      const task = jest.fn(() => "result");
+      const promise = Scheduler.run("sync", task);
+      expect(task).toHaveBeenCalledTimes(1);
+      await expect(promise).resolves.toEqual("result");
+    });
+
+    it("Executes microtasks once the callstack clears", async () => {
+      const task = jest.fn();
+      void Scheduler.run("microtask", task);
+      expect(task).toHaveBeenCalledTimes(0);
+      await Promise.resolve();
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it("Executes animation frame tasks before the next repaint", async () => {
+      const frames: (() => void)[] = [];
+      stub(
+        "requestAnimationFrame",
+        jest.fn((callback: () => void) => frames.push(callback))
+      );
+      const task = jest.fn();
+      void Scheduler.run("animationFrame", task);
+      await flushPromises();
+      expect(task).toHaveBeenCalledTimes(0);
+      frames.forEach((frame) => frame());
+      await flushPromises();
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it("Falls back to setTimeout when requestAnimationFrame is missing", async () => {
+      const task = jest.fn();
+      void Scheduler.run("animationFrame", task);
+      jest.advanceTimersByTime(15);
+      await flushPromises();
+      expect(task).toHaveBeenCalledTimes(0);
+      jest.advanceTimersByTime(1);
+      await flushPromises();
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it("Executes idle tasks using requestIdleCallback and forwards the timeout", async () => {
+      const idle: (() => void)[] = [];
+      const requestIdleCallback = stub(
+        "requestIdleCallback",
+        jest.fn((callback: () => void) => idle.push(callback))
+      );
+      const task = jest.fn();
+      void Scheduler.run({ strategy: "idle", timeout: 200 }, task);
+      expect(requestIdleCallback).toHaveBeenCalledWith(expect.any(Function), { timeout: 200 });
+      await flushPromises();
+      expect(task).toHaveBeenCalledTimes(0);
+      idle.forEach((callback) => callback());
+      await flushPromises();
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it("Falls back to setTimeout when requestIdleCallback is missing", async () => {
+      const task = jest.fn();
+      void Scheduler.run("idle", task);
+      await flushPromises();
+      expect(task).toHaveBeenCalledTimes(0);
+      jest.advanceTimersByTime(1);
+      await flushPromises();
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it("Executes prioritized tasks using scheduler.postTask", async () => {
+      const postTask = jest.fn((callback: () => void) => Promise.resolve().then(callback));
+      stub("scheduler", { postTask });
+      for (const priority of Scheduler.priorities) {
+        const task = jest.fn();
+        await Scheduler.run(priority, task);
+        expect(postTask).toHaveBeenLastCalledWith(expect.any(Function), { priority });
+        expect(task).toHaveBeenCalledTimes(1);
+      }
+    });
+
+    it("Uses the APIs of the global scope outside of a window, such as in Web Workers", async () => {
+      jest.spyOn(globalThis as any, "window", "get").mockReturnValue(undefined);
+      const postTask = jest.fn((callback: () => void) => Promise.resolve().then(callback));
+      stub("scheduler", { postTask });
+      const task = jest.fn();
+      await Scheduler.run("user-visible", task);
+      expect(postTask).toHaveBeenCalledWith(expect.any(Function), { priority: "user-visible" });
+      expect(task).toHaveBeenCalledTimes(1);
+      jest.restoreAllMocks();
+    });
+
+    it("Falls back to setTimeout when scheduler.postTask is missing", async () => {
+      const task = jest.fn();
+      void Scheduler.run("user-visible", task);
+      await flushPromises();
+      expect(task).toHaveBeenCalledTimes(0);
+      jest.advanceTimersByTime(0);
+      await flushPromises();
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it("Falls back to the idle strategy for background tasks", async () => {
+      const requestIdleCallback = stub(
+        "requestIdleCallback",
+        jest.fn((callback: () => void) => callback())
+      );
+      const task = jest.fn();
+      await Scheduler.run("background", task);
+      expect(requestIdleCallback).toHaveBeenCalledTimes(1);
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Listeners:", () => {
+    it("Defers listeners using their schedule", async () => {
+      const indexer = new MetricIndexer("example-event");
+      const listener = jest.fn();
+      indexer.add(listener, { schedule: { strategy: "idle", timeout: 100 } });
+      void indexer.bust("example-metric");
+      await flushPromises();
+      expect(listener).toHaveBeenCalledTimes(0);
+      jest.advanceTimersByTime(1);
+      await flushPromises();
+      expect(listener).toHaveBeenCalledWith("example-metric");
+      expect(indexer.size).toEqual(0);
+    });
+
+    it("Prefers a listener's schedule over its passive option", () => {
+      const indexer = new MetricIndexer("example-event");
+      const listener = jest.fn();
+      indexer.add(listener, { passive: true, schedule: "sync" });
+      void indexer.bust("example-metric");
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("Executes deferred listeners once when busted multiple times before their schedule", async () => {
+      const indexer = new MetricIndexer("example-event");
+      const listener = jest.fn();
+      indexer.add(listener, { schedule: "animationFrame" });
+      void indexer.bust("first");
+      void indexer.bust("second");
+      jest.advanceTimersByTime(16);
+      await flushPromises();
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith("first");
+    });
+
+    it("Skips deferred listeners that are removed before their schedule", async () => {
+      const indexer = new MetricIndexer("example-event");
+      const listener = jest.fn();
+      const ID = indexer.add(listener, { schedule: "user-visible" });
+      void indexer.bust("example-metric");
+      indexer.remove(ID);
+      jest.advanceTimersByTime(0);
+      await flushPromises();
+      expect(listener).toHaveBeenCalledTimes(0);
+    });
+
+    it("Reports errors from deferred listeners as passive listener errors", async () => {
+      const onError = jest.fn();
+      const indexer = new MetricIndexer("example-event", { onError });
+      const error = new Error("Listener Error");
+      const ID = indexer.add(
+        () => {
+          throw error;
+        },
+        { passive: false, schedule: "idle" }
+      );
+      void indexer.bust("example-metric");
+      jest.advanceTimersByTime(1);
+      await flushPromises();
+      expect(onError).toHaveBeenCalledWith(error, {
+        event: "example-event",
+        listenerID: ID,
+        phase: "passive-listener",
+      });
+    });
+  });
+
+  describe("Plugins:", () => {
+    it("Defers plugin events using the plugin's schedule", async () => {
+      const queue = createMetricsQueue({
+        usePerformanceAPI: false,
+        plugins: { deferred: { schedule: "animationFrame" }, immediate: { schedule: "sync" } },
+      });
+      const listener = jest.fn();
+      queue.addEventListener("deferred-metric", listener, { passive: false });
+      queue.addEventListener("immediate-metric", listener, { passive: false });
+      void queue.plugins.deferred("deferred-metric", 1);
+      void queue.plugins.immediate("immediate-metric", 2);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenLastCalledWith(2);
+      jest.advanceTimersByTime(16);
+      await flushPromises();
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenLastCalledWith(1);
+      queue.destroy();
+    });
+  });
+});
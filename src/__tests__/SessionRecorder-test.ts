@@ -0,0 +1,253 @@
+import { SessionRecorder } from "../SessionRecorder";
+import { MetricsTestHarness } from "../testing";
+import type { RecordedEmission, RecordedSession } from "../types";
+
+describe("Session Recorder:", () => {
+  let time: number;
+  const now = () => time;
+
+  beforeEach(() => {
+    time = 100;
+  });
+
+  it("Records emissions relative to the start of the recording", () => {
+    const recorder = new SessionRecorder(now);
+    time = 150;
+    recorder.record("plugin", "search-latency", [{ duration: 80 }]);
+    time = 400;
+    recorder.record("mark", "results-rendered", [
+      { name: "results-rendered", entryType: "mark" },
+      "results-rendered",
+    ]);
+    expect(recorder.toJSON()).toEqual({
+      version: SessionRecorder.version,
+      startedAt: expect.any(Number),
+      emissions: [
+        { type: "plugin", name: "search-latency", args: [{ duration: 80 }], time: 50 },
+        {
+          type: "mark",
+          name: "results-rendered",
+          args: [{ name: "results-rendered", entryType: "mark" }, "results-rendered"],
+          time: 300,
+        },
+      ],
+    });
+  });
+
+  it("Serializes the arguments of each emission", () => {
+    const recorder = new SessionRecorder(now);
+    recorder.record("plugin", "search-latency", [{ duration: 80, callback: () => {} }, () => {}]);
+    const [emission] = recorder.toJSON().emissions;
+    expect(emission.args).toEqual([{ duration: 80 }, undefined]);
+  });
+
+  it("Stops recording once it reaches its max emissions", () => {
+    const recorder = new SessionRecorder(now, { maxEmissions: 2 });
+    ["first", "second", "third"].forEach((name) => recorder.record("plugin", name, []));
+    expect(recorder.toJSON().emissions.map(({ name }) => name)).toEqual(["first", "second"]);
+  });
+
+  it("Identifies recorded sessions", () => {
+    expect(SessionRecorder.isSession(new SessionRecorder(now).toJSON())).toEqual(true);
+    expect(SessionRecorder.isSession({ version: 2, emissions: [] })).toEqual(false);
+    expect(SessionRecorder.isSession({ version: 1 })).toEqual(false);
+    expect(SessionRecorder.isSession(null)).toEqual(false);
+  });
+
+  describe("Replay:", () => {
+    const session = (...times: number[]): RecordedSession => ({
+      version: SessionRecorder.version,
+      startedAt: 0,
+      emissions: times.map((time, index) => ({ type: "plugin", name: `metric-${index}`, args: [], time })),
+    });
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const replay = async (recorded: RecordedSession, options = {}, onEmit = () => {}) => {
+      const emitted: [string, number][] = [];
+      const start = Date.now();
+      let done = false;
+      void SessionRecorder.replay(
+        recorded,
+        async ({ name }: RecordedEmission) => {
+          emitted.push([name, Date.now() - start]);
+          onEmit();
+        },
+        options
+      ).then(() => {
+        done = true;
+      });
+      // Let each emission settle before advancing to the next gap
+      while (!done) {
+        await Promise.resolve();
+        jest.advanceTimersToNextTimer();
+      }
+      return emitted;
+    };
+
+    it("Emits each emission in order using its original timing", async () => {
+      const emitted = await replay(session(0, 60));
+      expect(emitted).toEqual([
+        ["metric-0", 0],
+        ["metric-1", 60],
+      ]);
+    });
+
+    it("Compresses timing by the speed of the replay", async () => {
+      const emitted = await replay(session(0, 400), { speed: 10 });
+      expect(emitted[1][1]).toEqual(40);
+    });
+
+    it("Caps the time waited between emissions", async () => {
+      const emitted = await replay(session(0, 5000), { maxGap: 10 });
+      expect(emitted[1][1]).toEqual(10);
+    });
+
+    it("Stops waiting as soon as it's aborted in the middle of a gap", async () => {
+      const controller = new AbortController();
+      const emitted: string[] = [];
+      const replaying = SessionRecorder.replay(
+        session(0, 60000),
+        async ({ name }) => {
+          emitted.push(name);
+        },
+        { signal: controller.signal }
+      );
+      await Promise.resolve();
+      expect(jest.getTimerCount()).toEqual(1);
+      controller.abort();
+      await replaying;
+      expect(emitted).toEqual(["metric-0"]);
+      expect(jest.getTimerCount()).toEqual(0);
+    });
+
+    it("Replays without waiting at an infinite speed", async () => {
+      const setTimeout = jest.spyOn(global, "setTimeout");
+      const emitted = await replay(session(0, 5000, 10000), { speed: Infinity });
+      expect(emitted).toHaveLength(3);
+      expect(setTimeout).not.toHaveBeenCalled();
+      setTimeout.mockRestore();
+    });
+
+    it("Stops replaying when aborted", async () => {
+      const controller = new AbortController();
+      const emitted = await replay(session(0, 10, 20), { signal: controller.signal }, () =>
+        controller.abort()
+      );
+      expect(emitted.map(([name]) => name)).toEqual(["metric-0"]);
+    });
+  });
+
+  describe("Recording a MetricsQueue:", () => {
+    let field: MetricsTestHarness<any, "perfLib">;
+    let local: MetricsTestHarness<any, "perfLib">;
+
+    beforeEach(() => {
+      field = new MetricsTestHarness({ plugins: { perfLib: {} } });
+      local = new MetricsTestHarness({ plugins: { perfLib: {} } });
+    });
+
+    afterEach(() => {
+      field.destroy();
+      local.destroy();
+    });
+
+    const recordField = async () => {
+      field.queue.startRecording();
+      field.advance(1200);
+      field.mark("search-submit");
+      await field.flushMicrotasks();
+      field.advance(80);
+      field.measure("search-latency", { duration: 80 });
+      await field.flushMicrotasks();
+      field.emit("perfLib", "results-rendered", { duration: 40, detail: { results: 12 } });
+      await field.flushMicrotasks();
+      // Sessions survive being sent over the network
+      return JSON.parse(JSON.stringify(field.queue.stopRecording()));
+    };
+
+    it("Records marks, measures and plugin metrics", async () => {
+      const session = await recordField();
+      expect(session.emissions.map(({ type, name, time }: RecordedEmission) => [type, name, time])).toEqual([
+        ["mark", "search-submit", 1200],
+        ["measure", "search-latency", 1280],
+        ["plugin", "results-rendered", 1280],
+      ]);
+    });
+
+    it("Omits errors, budget violations and slow listeners", async () => {
+      field.queue.startRecording();
+      field.queue.addEventListener("search-submit", () => {
+        throw new Error("Listener error");
+      });
+      jest.spyOn(console, "error").mockImplementationOnce(() => {});
+      field.mark("search-submit");
+      await field.flushMicrotasks();
+      const session = field.queue.stopRecording();
+      expect(session?.emissions.map(({ name }) => name)).toEqual(["search-submit"]);
+    });
+
+    it("Returns null when no recording was started", () => {
+      expect(field.queue.stopRecording()).toEqual(null);
+    });
+
+    it("Replays a session into a fresh MetricsQueue", async () => {
+      const session = await recordField();
+      const onSubmit = jest.fn();
+      const onLatency = jest.fn();
+      const onRendered = jest.fn();
+      local.queue.addEventListener("search-submit", onSubmit);
+      local.queue.addEventListener("search-latency", onLatency);
+      local.queue.addEventListener("results-rendered", onRendered);
+      await local.queue.replaySession(session, { speed: Infinity });
+      await local.flushMicrotasks();
+      expect(onSubmit).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "search-submit", startTime: 1200 }),
+        "search-submit",
+        undefined
+      );
+      expect(onLatency).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "search-latency", duration: 80 }),
+        "search-latency",
+        expect.objectContaining({ duration: 80 })
+      );
+      expect(onRendered).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "results-rendered", duration: 40, detail: { results: 12 } })
+      );
+      expect(local.queue.getStats("search-latency")).toEqual(expect.objectContaining({ last: 80 }));
+    });
+
+    it("Does not recreate derived measures while replaying their marks", async () => {
+      const definition = { start: "search-submit", end: "results-rendered" };
+      field.queue.defineMeasure("search-latency", definition);
+      field.queue.startRecording();
+      field.mark("search-submit");
+      field.advance(80);
+      field.mark("results-rendered");
+      await field.flushMicrotasks();
+      const session = field.queue.stopRecording() as RecordedSession;
+      expect(session.emissions.map(({ name }) => name)).toEqual([
+        "search-submit",
+        "results-rendered",
+        "search-latency",
+      ]);
+      const listener = jest.fn();
+      local.queue.defineMeasure("search-latency", definition);
+      local.queue.addEventListener("search-latency", listener, { keepAlive: true });
+      await local.queue.replaySession(session, { speed: Infinity });
+      await local.flushMicrotasks();
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(local.performance.getEntriesByName("search-latency")).toEqual([]);
+    });
+
+    it("Rejects values that aren't recorded sessions", async () => {
+      await expect(local.queue.replaySession({} as RecordedSession)).rejects.toThrow(TypeError);
+    });
+  });
+});
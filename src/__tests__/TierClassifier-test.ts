@@ -0,0 +1,122 @@
+import { TierClassifier } from "../TierClassifier";
+import type { TierChange, TierConfig } from "../types";
+
+describe("Tier Classifier:", () => {
+  const rules: TierConfig["rules"] = [
+    { metric: "TTFB", fast: 200, slow: 800 },
+    { metric: "LCP", fast: 1500, slow: 4000, weight: 2 },
+  ];
+  let changes: TierChange[];
+  const create = (config: Partial<TierConfig> = {}) =>
+    new TierClassifier({ rules, ...config }, (change) => changes.push(change));
+
+  beforeEach(() => {
+    changes = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("Scores values between a rule's slow and fast thresholds", () => {
+    expect(TierClassifier.scoreRule(100, 200, 800)).toEqual(1);
+    expect(TierClassifier.scoreRule(500, 200, 800)).toEqual(0.5);
+    expect(TierClassifier.scoreRule(900, 200, 800)).toEqual(0);
+    // Higher values are faster when the fast threshold is above the slow threshold
+    expect(TierClassifier.scoreRule(7.5, 10, 0)).toEqual(0.75);
+    expect(TierClassifier.scoreRule(5, 5, 5)).toEqual(1);
+  });
+
+  it("Has no tier until a metric is classified", () => {
+    const classifier = create();
+    classifier.observe("unrelated-metric", [{ duration: 10 }]);
+    expect(classifier.tier).toEqual(null);
+    expect(classifier.score()).toEqual(null);
+    expect(changes).toEqual([]);
+  });
+
+  it("Emits a change of tier as metrics arrive", () => {
+    const classifier = create();
+    classifier.observe("TTFB", [{ startTime: 100 }]);
+    expect(classifier.tier).toEqual("fast");
+    expect(changes).toEqual([
+      { tier: "fast", previous: null, score: 1, committed: false, values: { TTFB: 100 } },
+    ]);
+  });
+
+  it("Weights each rule's score and commits once every rule is observed", () => {
+    const classifier = create();
+    classifier.observe("TTFB", [{ startTime: 100 }]);
+    classifier.observe("LCP", [{ startTime: 4500 }]);
+    expect(classifier.score()).toBeCloseTo(1 / 3);
+    expect(classifier.tier).toEqual("average");
+    expect(changes[1]).toEqual({
+      tier: "average",
+      previous: "fast",
+      score: expect.any(Number),
+      committed: true,
+      values: { TTFB: 100, LCP: 4500 },
+    });
+    classifier.observe("LCP", [{ startTime: 100 }]);
+    expect(changes).toHaveLength(2);
+  });
+
+  it("Only emits when the tier changes before it's committed", () => {
+    const classifier = create({ rules: [...rules, { metric: "INP", fast: 200, slow: 500 }] });
+    classifier.observe("TTFB", [{ startTime: 100 }]);
+    classifier.observe("LCP", [{ startTime: 1000 }]);
+    expect(changes).toHaveLength(1);
+  });
+
+  it("Aggregates rules using the max or count of their values", () => {
+    const classifier = create({
+      rules: [
+        { metric: "CLS", fast: 0.1, slow: 0.25, aggregate: "max" },
+        { metric: "longtask", fast: 0, slow: 4, aggregate: "count" },
+      ],
+    });
+    expect(classifier.score()).toEqual(1);
+    classifier.observe("CLS", [0.2]);
+    classifier.observe("CLS", [0.05]);
+    [120, 90, 60].forEach((duration) => classifier.observe("longtask", [{ duration }]));
+    expect(classifier.tier).toEqual("slow");
+    expect(changes[changes.length - 1].values).toEqual({ CLS: 0.2, longtask: 3 });
+  });
+
+  it("Applies custom cutoffs", () => {
+    const classifier = create({ cutoffs: { fast: 0.9 } });
+    classifier.observe("TTFB", [{ startTime: 300 }]);
+    expect(classifier.tier).toEqual("average");
+  });
+
+  it("Commits a best-effort tier once the deadline elapses", () => {
+    jest.useFakeTimers();
+    const classifier = create({ deadline: 3000 });
+    classifier.start();
+    classifier.observe("TTFB", [{ startTime: 750 }]);
+    jest.advanceTimersByTime(3000);
+    expect(changes).toEqual([
+      { tier: "slow", previous: null, score: expect.any(Number), committed: false, values: { TTFB: 750 } },
+      { tier: "slow", previous: "slow", score: expect.any(Number), committed: true, values: { TTFB: 750 } },
+    ]);
+    classifier.observe("LCP", [{ startTime: 100 }]);
+    expect(classifier.tier).toEqual("slow");
+  });
+
+  it("Commits the fallback tier when no metric is classified by the deadline", () => {
+    jest.useFakeTimers();
+    const classifier = create({ deadline: 3000, fallback: "slow" });
+    classifier.start();
+    jest.advanceTimersByTime(3000);
+    expect(changes).toEqual([{ tier: "slow", previous: null, score: null, committed: true, values: {} }]);
+  });
+
+  it("Stops the deadline without committing", () => {
+    jest.useFakeTimers();
+    const classifier = create({ deadline: 3000 });
+    classifier.start();
+    classifier.stop();
+    jest.advanceTimersByTime(3000);
+    expect(changes).toEqual([]);
+  });
+});
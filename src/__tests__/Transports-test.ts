@@ -0,0 +1,49 @@
+import { Transports } from "../Transports";
+
+describe("Transports:", () => {
+  const batch = [{ name: "example-metric", type: "plugin", value: 1, timestamp: 1000 }];
+
+  describe("Beacon:", () => {
+    afterEach(() => {
+      delete (navigator as Partial<Navigator>).sendBeacon;
+    });
+
+    it("Sends batches as JSON using navigator.sendBeacon", () => {
+      navigator.sendBeacon = jest.fn(() => true);
+      expect(Transports.beacon("/metrics")(batch)).toEqual(true);
+      expect(navigator.sendBeacon).toHaveBeenCalledWith("/metrics", JSON.stringify(batch));
+    });
+
+    it("Fails when beacons are not supported", () => {
+      expect(Transports.beacon("/metrics")(batch)).toEqual(false);
+    });
+  });
+
+  describe("Fetch:", () => {
+    afterEach(() => {
+      delete (window as Partial<Window>).fetch;
+    });
+
+    it("Posts batches as JSON and fails on unsuccessful responses", async () => {
+      window.fetch = jest.fn().mockResolvedValueOnce({ ok: true }).mockResolvedValueOnce({ ok: false });
+      const transport = Transports.fetch("/metrics", { credentials: "include" });
+      await expect(transport(batch)).resolves.toEqual(true);
+      await expect(transport(batch)).resolves.toEqual(false);
+      expect(window.fetch).toHaveBeenCalledWith("/metrics", {
+        method: "POST",
+        keepalive: true,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(batch),
+        credentials: "include",
+      });
+    });
+  });
+
+  describe("Memory:", () => {
+    it("Retains each batch sent", () => {
+      const transport = Transports.memory();
+      expect(transport(batch)).toEqual(true);
+      expect(transport.batches).toEqual([batch]);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { WebVitals } from "../WebVitals";
+import { MetricsQueue } from "../MetricsQueue";
+import { FakePerformanceObserver } from "../testUtils";
+
+const hidePage = () => {
+  Object.defineProperty(document, "visibilityState", { configurable: true, value: "hidden" });
+  document.dispatchEvent(new Event("visibilitychange"));
+  Object.defineProperty(document, "visibilityState", { configurable: true, value: "visible" });
+};
+
+describe("Web Vitals:", () => {
+  let vitals: WebVitals;
+  const emit = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    FakePerformanceObserver.install();
+    vitals = new WebVitals(emit);
+    vitals.start();
+  });
+
+  afterEach(() => {
+    vitals.stop();
+    FakePerformanceObserver.uninstall();
+  });
+
+  describe("Rate:", () => {
+    it("Rates values using the recommended thresholds", () => {
+      expect(WebVitals.rate("LCP", 2500)).toEqual("good");
+      expect(WebVitals.rate("LCP", 3000)).toEqual("needs-improvement");
+      expect(WebVitals.rate("LCP", 4001)).toEqual("poor");
+      expect(WebVitals.rate("CLS", 0.05)).toEqual("good");
+    });
+  });
+
+  it("Observes the entry types the vitals are derived from", () => {
+    expect(FakePerformanceObserver.instances[0].types).toEqual(WebVitals.entryTypes);
+  });
+
+  it("Emits FCP when the first-contentful-paint is observed", () => {
+    const paint = { name: "first-contentful-paint", entryType: "paint", startTime: 1000 };
+    FakePerformanceObserver.emit([{ name: "first-paint", entryType: "paint", startTime: 900 }, paint]);
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(emit).toHaveBeenCalledWith({ name: "FCP", value: 1000, rating: "good", entries: [paint] });
+  });
+
+  it("Emits TTFB when the navigation entry is observed", () => {
+    const navigation = { name: "https://example.com", entryType: "navigation", responseStart: 900 };
+    FakePerformanceObserver.emit([navigation as Partial<PerformanceEntry>]);
+    expect(emit).toHaveBeenCalledWith({
+      name: "TTFB",
+      value: 900,
+      rating: "needs-improvement",
+      entries: [navigation],
+    });
+  });
+
+  it("Emits the latest LCP candidate once the user interacts with the page", () => {
+    const first = { name: "", entryType: "largest-contentful-paint", startTime: 1000 };
+    const second = { name: "", entryType: "largest-contentful-paint", startTime: 3000 };
+    FakePerformanceObserver.emit([first, second]);
+    expect(emit).toHaveBeenCalledTimes(0);
+    window.dispatchEvent(new Event("keydown"));
+    expect(emit).toHaveBeenCalledWith({
+      name: "LCP",
+      value: 3000,
+      rating: "needs-improvement",
+      entries: [second],
+    });
+    FakePerformanceObserver.emit([{ name: "", entryType: "largest-contentful-paint", startTime: 5000 }]);
+    hidePage();
+    expect(emit.mock.calls.filter(([{ name }]) => name === "LCP")).toHaveLength(1);
+  });
+
+  it("Emits CLS using the largest session window when the page is hidden", () => {
+    const shift = (startTime: number, value: number, hadRecentInput = false) =>
+      ({
+        name: "",
+        entryType: "layout-shift",
+        startTime,
+        value,
+        hadRecentInput,
+      } as Partial<PerformanceEntry>);
+    FakePerformanceObserver.emit([
+      shift(0, 0.05),
+      shift(500, 0.05),
+      shift(600, 1, true),
+      // New session window after a second without shifts
+      shift(2000, 0.2),
+      shift(2500, 0.01),
+    ]);
+    hidePage();
+    const [[cls]] = emit.mock.calls;
+    expect(cls.name).toEqual("CLS");
+    expect(cls.value).toBeCloseTo(0.21);
+    expect(cls.rating).toEqual("needs-improvement");
+    expect(cls.entries).toHaveLength(2);
+    hidePage();
+    expect(emit).toHaveBeenCalledTimes(1);
+  });
+
+  it("Emits INP using the slowest interaction when the page is hidden", () => {
+    const event = (interactionId: number, duration: number) =>
+      ({ name: "pointerup", entryType: "event", interactionId, duration } as Partial<PerformanceEntry>);
+    FakePerformanceObserver.emit([event(1, 80), event(1, 120), event(2, 300), event(0, 900)]);
+    hidePage();
+    expect(emit).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "INP", value: 300, rating: "needs-improvement" })
+    );
+  });
+
+  it("Keeps only the slowest interactions while ignoring one for every 50 interactions", () => {
+    const event = (interactionId: number, duration: number) =>
+      ({ name: "pointerup", entryType: "event", interactionId, duration } as Partial<PerformanceEntry>);
+    // 120 interactions with latencies of 1 through 120ms
+    FakePerformanceObserver.emit(Array.from({ length: 120 }, (_, index) => event(index + 1, index + 1)));
+    expect(vitals["interactions"].map(({ latency }) => latency)).toEqual([
+      120, 119, 118, 117, 116, 115, 114, 113, 112, 111,
+    ]);
+    hidePage();
+    expect(emit).toHaveBeenCalledWith(expect.objectContaining({ name: "INP", value: 118 }));
+  });
+
+  it("Removes its page lifecycle listeners when stopped", () => {
+    FakePerformanceObserver.emit([{ name: "", entryType: "largest-contentful-paint", startTime: 1000 }]);
+    vitals.stop();
+    window.dispatchEvent(new Event("pointerdown"));
+    expect(emit).toHaveBeenCalledTimes(0);
+  });
+
+  describe("Integration with the MetricsQueue:", () => {
+    beforeEach(() => {
+      MetricsQueue.destroy();
+    });
+
+    it("Emits vitals through the MetricsQueue when 'vitals' is true", async () => {
+      MetricsQueue.init({ vitals: true, usePerformanceAPI: false });
+      const listenerSpy = jest.fn();
+      MetricsQueue.addEventListener("FCP", listenerSpy);
+      const paint = { name: "first-contentful-paint", entryType: "paint", startTime: 2000 };
+      FakePerformanceObserver.emit([paint]);
+      await new Promise(process.nextTick);
+      expect(listenerSpy).toHaveBeenCalledWith({
+        name: "FCP",
+        value: 2000,
+        rating: "needs-improvement",
+        entries: [paint],
+      });
+      MetricsQueue.destroy();
+      expect(MetricsQueue["vitals"]).toEqual(null);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { MetricsQueue, MetricsQueueInstance } from "../MetricsQueue";
+import { useMetricsQueues } from "../testUtils";
+
+Object.defineProperty(window, "performance", {
+  writable: true,
+  value: {
+    now: () => Date.now(),
+    mark: (name: string) => ({ name, time: Date.now() }),
+    measure: (measure: string) => ({ name: measure, time: Date.now() }),
+  },
+});
+
+describe("Create Metrics Queue:", () => {
+  const create = useMetricsQueues();
+
+  beforeEach(() => {
+    MetricsQueue.destroy();
+  });
+
+  it("Returns an initialized MetricsQueue", () => {
+    const queue = create();
+    expect(queue).toBeInstanceOf(MetricsQueueInstance);
+    expect(queue.enabled).toEqual(true);
+    expect(queue).not.toBe(MetricsQueue);
+  });
+
+  it("Creates instances with independent emitters and ID spaces", () => {
+    const first = create({ usePerformanceAPI: false });
+    const second = create({ usePerformanceAPI: false });
+    expect(first.addEventListener("example-mark", () => {})).toEqual("0");
+    expect(first.addEventListener("example-mark", () => {})).toEqual("1");
+    expect(second.addEventListener("example-mark", () => {})).toEqual("0");
+    expect(first["emitter"]["example-mark"].size).toEqual(2);
+    expect(second["emitter"]["example-mark"].size).toEqual(1);
+  });
+
+  it("Creates instances with independent plugins", async () => {
+    const first = create({ plugins: { onFirstLibraryEvent: { processAfterCallStack: false } } });
+    const second = create({ plugins: { onSecondLibraryEvent: { processAfterCallStack: false } } });
+    const firstSpy = jest.fn();
+    const secondSpy = jest.fn();
+    first.addEventListener("example-metric", firstSpy);
+    second.addEventListener("example-metric", secondSpy);
+    // @ts-expect-error - "onSecondLibraryEvent" is registered on the second instance
+    expect(first.plugins.onSecondLibraryEvent).toEqual(undefined);
+    first.plugins.onFirstLibraryEvent("example-metric");
+    await new Promise(process.nextTick);
+    expect(firstSpy).toHaveBeenCalledTimes(1);
+    expect(secondSpy).toHaveBeenCalledTimes(0);
+  });
+
+  it("Creates instances with independent listener limits", () => {
+    const queue = create({ maxListeners: 2, leakDetection: { mode: "throw" } });
+    queue.addEventListener("example-mark", () => {});
+    queue.addEventListener("example-mark", () => {});
+    expect(() => {
+      queue.addEventListener("example-mark", () => {});
+    }).toThrow('There are currently 3 listeners registered to "example-mark", exceeding the limit of 2');
+    expect(() => {
+      MetricsQueue.init();
+      MetricsQueue.addEventListener("example-mark", () => {});
+      MetricsQueue.addEventListener("example-mark", () => {});
+      MetricsQueue.addEventListener("example-mark", () => {});
+    }).not.toThrow();
+  });
+
+  describe("Performance API ownership:", () => {
+    it("Allows only one instance to patch the Performance API", () => {
+      const mark = performance.mark;
+      const first = create();
+      const second = create();
+      expect(performance.mark).toEqual(first["markMiddleware"]);
+      expect(first["mark"]).toEqual(mark);
+      expect(second["mark"]).toEqual(null);
+    });
+
+    it("Fans marks and measures out to each instance", async () => {
+      const first = create();
+      const second = create();
+      const firstSpy = jest.fn();
+      const secondSpy = jest.fn();
+      first.addEventListener("example-mark", firstSpy);
+      second.addEventListener("example-measure", secondSpy);
+      const performanceMark = performance.mark("example-mark");
+      const performanceMeasure = performance.measure("example-measure");
+      await new Promise(process.nextTick);
+      expect(firstSpy).toHaveBeenCalledWith(performanceMark, "example-mark");
+      expect(secondSpy).toHaveBeenCalledWith(performanceMeasure, "example-measure");
+    });
+
+    it("Transfers ownership of the Performance API when the owner is destroyed", async () => {
+      const mark = performance.mark;
+      const first = create();
+      const second = create();
+      first.destroy();
+      expect(performance.mark).toEqual(second["markMiddleware"]);
+      expect(second["mark"]).toEqual(mark);
+      const secondSpy = jest.fn();
+      second.addEventListener("example-mark", secondSpy);
+      performance.mark("example-mark");
+      await new Promise(process.nextTick);
+      expect(secondSpy).toHaveBeenCalledTimes(1);
+      second.destroy();
+      expect(performance.mark).toEqual(mark);
+    });
+
+    it("Stops fanning out to destroyed instances", async () => {
+      const first = create();
+      const second = create();
+      const onMark = jest.spyOn(second as any, "onMark");
+      second.destroy();
+      performance.mark("example-mark");
+      await new Promise(process.nextTick);
+      expect(onMark).toHaveBeenCalledTimes(0);
+      expect(performance.mark).toEqual(first["markMiddleware"]);
+    });
+  });
+});
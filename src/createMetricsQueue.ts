@@ -0,0 +1,29 @@
+import { MetricsQueueInstance } from "./MetricsQueue";
+import type { InitConfig, EventMap, DefaultEventMap } from "./types";
+
+/**
+ * Create MetricsQueue
+ *
+ * Returns an initialized MetricsQueue with its own emitter, plugins, ID space and
+ * listener limits. Instances are useful when several applications, such as
+ * micro-frontends, share a page and should not share listeners.
+ *
+ * The Performance API is patched by one MetricsQueue at a time. Each additional
+ * instance subscribes to its marks and measures.
+ *
+ * Instances can be typed using an event map of each event name to the arguments its
+ * listeners receive. Plugin names are inferred from the "plugins" provided, or can be
+ * listed as the second type argument when providing an event map.
+ *
+ * @param {InitConfig} config - the same configuration accepted by MetricsQueue.init
+ */
+export const createMetricsQueue = <
+  Events extends EventMap<Events> = DefaultEventMap,
+  Plugins extends string = string
+>(
+  config?: InitConfig<Plugins, Events>
+) => {
+  const queue = new MetricsQueueInstance<Events, Plugins>();
+  queue.init(config);
+  return queue;
+};
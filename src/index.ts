@@ -1,2 +1,6 @@
-export { MetricsQueue } from "./MetricsQueue";
+export { MetricsQueue, MetricsQueueInstance } from "./MetricsQueue";
+export { createMetricsQueue } from "./createMetricsQueue";
+export { PerformanceBackends } from "./PerformanceBackends";
+export { Transports } from "./Transports";
 export * from "./types";
+export { MetricsBridge } from "./MetricsBridge";
@@ -1,20 +1,79 @@
-export class PerfLibMetric {
-  name: string;
-  time = 0;
-  callbacks: ((...args: any[]) => any)[] = [];
-  constructor(name: string) {
-    this.name = name;
-  }
-  stop() {
-    this.time = Date.now();
-    this.onStop();
-  }
-  onStop() {
-    this.callbacks.forEach((callback) => {
-      callback(this);
+import { createMetricsQueue } from "../createMetricsQueue";
+import type { MetricsQueueInstance } from "../MetricsQueue";
+import type { InitConfig, EventMap, DefaultEventMap } from "../types";
+
+export { PerfLib, PerfLibMetric, createPerfLibPlugin } from "../testing/PerfLib";
+
+/**
+ * Returns a createMetricsQueue that destroys each MetricsQueue it creates after each test.
+ * Call it from within a describe block
+ */
+export const useMetricsQueues = () => {
+  const queues: MetricsQueueInstance<any, any>[] = [];
+  afterEach(() => {
+    while (queues.length) {
+      queues.pop()?.destroy();
+    }
+  });
+  return <Events extends EventMap<Events> = DefaultEventMap, Plugins extends string = string>(
+    config?: InitConfig<Plugins, Events>
+  ) => {
+    const queue = createMetricsQueue<Events, Plugins>(config);
+    queues.push(queue);
+    return queue;
+  };
+};
+
+export class FakePerformanceObserver {
+  static instances: FakePerformanceObserver[] = [];
+  static supportedEntryTypes = [
+    "mark",
+    "measure",
+    "paint",
+    "navigation",
+    "resource",
+    "longtask",
+    "largest-contentful-paint",
+    "layout-shift",
+    "event",
+    "first-input",
+  ];
+  callback: (list: { getEntries: () => PerformanceEntry[] }) => void;
+  options: PerformanceObserverInit[] = [];
+  connected = true;
+  constructor(callback: (list: { getEntries: () => PerformanceEntry[] }) => void) {
+    this.callback = callback;
+    FakePerformanceObserver.instances.push(this);
+  }
+  observe(options: PerformanceObserverInit) {
+    this.options.push(options);
+  }
+  disconnect() {
+    this.connected = false;
+  }
+  get types() {
+    return this.options.map(({ type }) => type);
+  }
+  emit(entries: Partial<PerformanceEntry>[]) {
+    this.callback({ getEntries: () => entries as PerformanceEntry[] });
+  }
+  static emit(entries: Partial<PerformanceEntry>[]) {
+    this.instances.forEach((observer) => {
+      if (observer.connected) {
+        const types = observer.types;
+        observer.emit(entries.filter(({ entryType }) => types.includes(entryType)));
+      }
+    });
+  }
+  static install() {
+    Object.defineProperty(window, "PerformanceObserver", {
+      writable: true,
+      configurable: true,
+      value: this,
     });
   }
-  subscribe(func: (...args: any[]) => any) {
-    this.callbacks.push(func);
+  static uninstall() {
+    this.instances = [];
+    delete (window as any).PerformanceObserver;
   }
 }
@@ -0,0 +1,190 @@
+import type { PerformanceBackend } from "../types";
+
+type FakeTimer = {
+  ID: number;
+  time: number;
+  callback: () => void;
+};
+
+type FakeEntry = {
+  name: string;
+  entryType: "mark" | "measure";
+  startTime: number;
+  duration: number;
+  detail: any;
+};
+
+/**
+ * Fake Performance
+ *
+ * A Performance API whose clock only moves when told to. Marks and measures are
+ * recorded against the fake clock, so tests can assert on exact start times and
+ * durations. It can be provided to MetricsQueue.init using the "performance" option.
+ * Timers scheduled on the fake clock run as it advances past them.
+ */
+export class FakePerformance implements PerformanceBackend {
+  private time: number;
+  private entries: FakeEntry[] = [];
+  private timers: FakeTimer[] = [];
+  private timerID = 0;
+
+  /**
+   * @param {number} time - the initial time of the clock. Defaults to 0
+   */
+  constructor(time = 0) {
+    this.time = time;
+  }
+
+  /**
+   * Returns the current time of the fake clock
+   */
+  public now() {
+    return this.time;
+  }
+
+  /**
+   * Move the fake clock forward, running each timer it passes in order
+   *
+   * @param {number} milliseconds - the number of milliseconds to advance the clock by
+   * @returns {number} - the current time of the fake clock
+   */
+  public advance(milliseconds: number) {
+    const target = this.time + milliseconds;
+    let timer = this.nextTimer(target);
+    while (timer) {
+      this.time = timer.time;
+      this.clearTimeout(timer.ID);
+      timer.callback();
+      timer = this.nextTimer(target);
+    }
+    this.time = target;
+    return this.time;
+  }
+
+  /**
+   * Schedule a callback to run once the fake clock advances by the number of milliseconds provided
+   *
+   * @param {Function} callback - the callback to run
+   * @param {number} milliseconds - the number of milliseconds to wait. Defaults to 0
+   * @returns {number} - the ID of the timer
+   */
+  public setTimeout(callback: () => void, milliseconds = 0) {
+    const ID = ++this.timerID;
+    this.timers.push({ ID, time: this.time + Math.max(milliseconds, 0), callback });
+    return ID;
+  }
+
+  /**
+   * Cancel a timer scheduled on the fake clock
+   *
+   * @param {number} ID - the ID of the timer
+   */
+  public clearTimeout(ID: number) {
+    this.timers = this.timers.filter((timer) => timer.ID !== ID);
+  }
+
+  /**
+   * Record a mark at the current time, or at the "startTime" provided
+   *
+   * @param {string} name - the name of the mark
+   * @param {PerformanceMarkOptions} options - the mark's "startTime" and "detail"
+   */
+  public mark(name: string, { startTime = this.time, detail = null }: PerformanceMarkOptions = {}) {
+    return this.record({ name, entryType: "mark", startTime, duration: 0, detail });
+  }
+
+  /**
+   * Record a measure between two marks or points in time. Measures end at the current
+   * time unless an "end" or "duration" is provided
+   *
+   * @param {string} name - the name of the measure
+   * @param {string | PerformanceMeasureOptions} startOrMeasureOptions - a start mark or the measure's options
+   * @param {string} endMark - the name of the mark ending the measure
+   */
+  public measure(name: string, startOrMeasureOptions?: string | PerformanceMeasureOptions, endMark?: string) {
+    let start: number;
+    let end: number;
+    let detail = null;
+    if (startOrMeasureOptions && typeof startOrMeasureOptions === "object") {
+      const { duration } = startOrMeasureOptions;
+      detail = startOrMeasureOptions.detail ?? null;
+      const from = this.resolve(startOrMeasureOptions.start);
+      const to = this.resolve(startOrMeasureOptions.end);
+      if (typeof duration === "number") {
+        start = from ?? (to ?? this.time) - duration;
+        end = start + duration;
+      } else {
+        start = from ?? 0;
+        end = to ?? this.time;
+      }
+    } else {
+      start = this.resolve(startOrMeasureOptions) ?? 0;
+      end = this.resolve(endMark) ?? this.time;
+    }
+    return this.record({ name, entryType: "measure", startTime: start, duration: end - start, detail });
+  }
+
+  /**
+   * Returns the marks and measures recorded with a name
+   *
+   * @param {string} name - the name of a mark or measure
+   * @param {string} type - an optional entry type - "mark" or "measure"
+   */
+  public getEntriesByName(name: string, type?: string) {
+    return this.entries.filter(
+      (entry) => entry.name === name && (!type || entry.entryType === type)
+    ) as unknown as PerformanceEntryList;
+  }
+
+  /**
+   * Remove each recorded mark, measure and timer and reset the clock
+   *
+   * @param {number} time - the time to reset the clock to. Defaults to 0
+   */
+  public reset(time = 0) {
+    this.time = time;
+    this.entries = [];
+    this.timers = [];
+  }
+
+  /**
+   * Returns the earliest timer due by a point in time
+   * * For internal use only
+   *
+   * @param {number} time - the point in time
+   */
+  private nextTimer(time: number) {
+    return this.timers.reduce<FakeTimer | undefined>(
+      (next, timer) => (timer.time <= time && (!next || timer.time < next.time) ? timer : next),
+      undefined
+    );
+  }
+
+  /**
+   * Returns the time of a mark or a point in time
+   * * For internal use only
+   *
+   * @param {string | number | undefined} markOrTime - the name of a mark or a timestamp
+   */
+  private resolve(markOrTime?: string | number) {
+    if (typeof markOrTime !== "string") {
+      return markOrTime;
+    }
+    const [mark] = this.getEntriesByName(markOrTime, "mark").slice(-1);
+    if (!mark) {
+      throw new SyntaxError(`The mark "${markOrTime}" does not exist`);
+    }
+    return mark.startTime;
+  }
+
+  /**
+   * Store an entry
+   * * For internal use only
+   *
+   * @param {FakeEntry} entry - a mark or measure
+   */
+  private record(entry: FakeEntry) {
+    this.entries.push(entry);
+    return entry;
+  }
+}
@@ -0,0 +1,158 @@
+import { MetricsQueue } from "../index";
+import { MetricValue } from "../MetricValue";
+import type { MetricsQueueInstance } from "../index";
+
+export type ExpectationClock = {
+  setTimeout: (callback: () => void, milliseconds: number) => unknown;
+  clearTimeout: (timer: any) => void;
+  /**
+   * Clocks that only move when told to, such as the FakePerformance clock, are
+   * advanced by assertions waiting on them
+   */
+  advance?: (milliseconds: number) => unknown;
+};
+
+/**
+ * Await a fixed number of microtasks, allowing passive listeners, deferred plugins and the
+ * MetricsQueue's middleware to run. This is not a guaranteed drain - listeners scheduled
+ * using timers, animation frames or idle callbacks are not flushed, and neither are
+ * listeners or plugins awaiting more microtasks than the number of turns.
+ *
+ * Idle microtask queues can't be detected without yielding to a macrotask, which would
+ * also run the timers this leaves alone. The deepest path through the MetricsQueue - a
+ * deferred plugin metric reaching a passive pattern listener - settles within a handful
+ * of microtasks, so the default of 50 leaves headroom for listeners and plugins awaiting
+ * promises of their own
+ *
+ * @param {number} turns - the number of microtasks to wait for. Defaults to 50
+ */
+export const flushMicrotasks = async (turns = 50) => {
+  for (let i = 0; i < turns; i++) {
+    await Promise.resolve();
+  }
+};
+
+/**
+ * Metric Expectation
+ *
+ * Asserts on a metric reached by a MetricsQueue. Each assertion returns a promise
+ * that rejects when the metric is missing, rather than passing silently the way an
+ * expect() inside of a listener would.
+ */
+export class MetricExpectation {
+  private metric: string;
+  private queue: MetricsQueueInstance<any, any>;
+  private clock: ExpectationClock;
+
+  /**
+   * @param {string} metric - the name of a mark, measure or plugin metric
+   * @param {MetricsQueueInstance} queue - the MetricsQueue reaching the metric. Defaults to the global MetricsQueue
+   * @param {ExpectationClock} clock - the clock timeouts are measured by. Defaults to the global timers
+   */
+  constructor(
+    metric: string,
+    queue: MetricsQueueInstance<any, any> = MetricsQueue,
+    clock: ExpectationClock = MetricExpectation.timers
+  ) {
+    this.metric = metric;
+    this.queue = queue;
+    this.clock = clock;
+  }
+
+  /**
+   * The global timers
+   * * For internal use only
+   */
+  private static timers: ExpectationClock = {
+    setTimeout: (callback, milliseconds) => setTimeout(callback, milliseconds),
+    clearTimeout: (timer) => clearTimeout(timer),
+  };
+
+  /**
+   * Resolves with the metric's arguments once it's reached, or rejects if it isn't reached
+   * within the timeout. Metrics reached before the assertion are accepted. Clocks that only
+   * move when told to are advanced by the timeout, running their timers, if the metric isn't
+   * reached once the microtask queue is flushed
+   *
+   * @param {number} timeout - the number of milliseconds to wait for the metric
+   */
+  public async toFireWithin(timeout: number) {
+    const controller = new AbortController();
+    let settled = false;
+    let timedOut = false;
+    const fired = this.queue.waitFor(this.metric, { sticky: true, signal: controller.signal });
+    void fired.then(
+      () => (settled = true),
+      () => (settled = true)
+    );
+    const timer = this.clock.setTimeout(() => {
+      // Metrics reached by the clock's earlier timers are emitted in microtasks
+      void flushMicrotasks().then(() => {
+        timedOut = true;
+        controller.abort();
+      });
+    }, timeout);
+    try {
+      if (this.clock.advance) {
+        await flushMicrotasks();
+        if (!settled) {
+          this.clock.advance(timeout);
+        }
+      }
+      return await fired;
+    } catch (error) {
+      if (timedOut) {
+        throw new Error(`Expected "${this.metric}" to fire within ${timeout}ms, but it was never reached`);
+      }
+      throw error;
+    } finally {
+      this.clock.clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Resolves with the metric's arguments if it has already been reached, otherwise rejects
+   */
+  public async toHaveFired() {
+    const controller = new AbortController();
+    const fired = this.queue
+      .waitFor(this.metric, { sticky: true, signal: controller.signal })
+      .catch(() => null);
+    await flushMicrotasks();
+    controller.abort();
+    const args = await fired;
+    if (!args) {
+      throw new Error(`Expected "${this.metric}" to have fired, but it was never reached`);
+    }
+    return args;
+  }
+
+  /**
+   * Resolves if the metric has been reached with a value below the limit. Marks resolve
+   * to their start time, measures to their duration, and plugin metrics to their
+   * "duration", "value" or "startTime"
+   *
+   * @param {number} limit - the value the metric must remain below
+   */
+  public async toHaveValueBelow(limit: number) {
+    const args = await this.toHaveFired();
+    const value = MetricValue.from(args[0]);
+    if (value === null || value >= limit) {
+      throw new Error(`Expected "${this.metric}" to have a value below ${limit}, but received ${value}`);
+    }
+    return args;
+  }
+}
+
+/**
+ * Create assertions on a metric reached by a MetricsQueue
+ *
+ * @param {string} metric - the name of a mark, measure or plugin metric
+ * @param {MetricsQueueInstance} queue - the MetricsQueue reaching the metric. Defaults to the global MetricsQueue
+ * @param {ExpectationClock} clock - the clock timeouts are measured by. Defaults to the global timers
+ */
+export const expectMetric = (
+  metric: string,
+  queue?: MetricsQueueInstance<any, any>,
+  clock?: ExpectationClock
+) => new MetricExpectation(metric, queue, clock);
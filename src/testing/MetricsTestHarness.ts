@@ -0,0 +1,111 @@
+import { createMetricsQueue } from "../index";
+import { FakePerformance } from "./FakePerformance";
+import { expectMetric, flushMicrotasks } from "./MetricExpectation";
+import type { MetricsQueueInstance, InitConfig, EventMap, DefaultEventMap } from "../index";
+
+export type SimulatedMetric = {
+  duration: number;
+  detail?: any;
+};
+
+/**
+ * Metrics Test Harness
+ *
+ * Creates an isolated MetricsQueue subscribed to a FakePerformance API, and simulates
+ * marks, measures and plugin metrics with chosen start times and durations.
+ */
+export class MetricsTestHarness<
+  Events extends EventMap<Events> = DefaultEventMap,
+  Plugins extends string = string
+> {
+  public readonly performance: FakePerformance;
+  public readonly queue: MetricsQueueInstance<Events, Plugins>;
+  private config: InitConfig<Plugins, Events>;
+
+  /**
+   * @param {InitConfig} config - the options provided to MetricsQueue.init. The "performance"
+   *                              option is replaced with a FakePerformance API
+   */
+  constructor(config: InitConfig<Plugins, Events> = {}) {
+    this.config = config;
+    this.performance = new FakePerformance();
+    this.queue = createMetricsQueue<Events, Plugins>({ ...config, performance: this.performance });
+  }
+
+  /**
+   * Move the fake clock forward
+   *
+   * @param {number} milliseconds - the number of milliseconds to advance the clock by
+   */
+  public advance(milliseconds: number) {
+    return this.performance.advance(milliseconds);
+  }
+
+  /**
+   * Simulate a performance.mark at the current time of the fake clock
+   *
+   * @param {string} name - the name of the mark
+   * @param {PerformanceMarkOptions} options - the mark's "startTime" and "detail"
+   */
+  public mark(name: string, options?: PerformanceMarkOptions) {
+    return this.performance.mark(name, options);
+  }
+
+  /**
+   * Simulate a performance.measure ending at the current time of the fake clock
+   *
+   * @param {string} name - the name of the measure
+   * @param {SimulatedMetric} metric - the measure's "duration" and "detail"
+   */
+  public measure(name: string, { duration, detail }: SimulatedMetric) {
+    return this.performance.measure(name, { end: this.performance.now(), duration, detail });
+  }
+
+  /**
+   * Simulate a plugin metric ending at the current time of the fake clock. The metric
+   * is emitted as { name, startTime, duration, detail }
+   *
+   * @param {Plugins} plugin - the name of a plugin provided to the harness
+   * @param {string} name - the name of the metric
+   * @param {SimulatedMetric} metric - the metric's "duration" and "detail"
+   */
+  public emit(plugin: Plugins, name: string, { duration, detail }: SimulatedMetric) {
+    const metric = { name, startTime: this.performance.now() - duration, duration, detail };
+    return (this.queue.plugins[plugin] as (...args: any[]) => any)(name, metric);
+  }
+
+  /**
+   * Await a fixed number of microtasks, allowing passive listeners and deferred plugins to run
+   *
+   * @param {number} turns - the number of microtasks to wait for. Defaults to 50
+   */
+  public flushMicrotasks(turns?: number) {
+    return flushMicrotasks(turns);
+  }
+
+  /**
+   * Create assertions on a metric reached by the harness's MetricsQueue. Timeouts are
+   * measured by the fake clock, which assertions advance when their metric is missing
+   *
+   * @param {string} metric - the name of a mark, measure or plugin metric
+   */
+  public expectMetric(metric: string) {
+    return expectMetric(metric, this.queue, this.performance);
+  }
+
+  /**
+   * Destroy the MetricsQueue and re-initialize it with a new fake clock
+   */
+  public reset() {
+    this.queue.destroy();
+    this.performance.reset();
+    this.queue.init({ ...this.config, performance: this.performance });
+  }
+
+  /**
+   * Destroy the MetricsQueue
+   */
+  public destroy() {
+    this.queue.destroy();
+  }
+}
@@ -0,0 +1,80 @@
+import type { PluginOptions } from "../index";
+
+/**
+ * Perf Lib Metric
+ *
+ * A metric started by the PerfLib fake performance library. Its duration is the
+ * time elapsed between its creation and the call to stop().
+ */
+export class PerfLibMetric {
+  name: string;
+  time = 0;
+  startTime = Date.now();
+  callbacks: ((...args: any[]) => any)[] = [];
+  constructor(name: string) {
+    this.name = name;
+  }
+  stop() {
+    this.time = Date.now();
+    this.onStop();
+  }
+  onStop() {
+    this.callbacks.forEach((callback) => {
+      callback(this);
+    });
+  }
+  subscribe(func: (...args: any[]) => any) {
+    this.callbacks.push(func);
+  }
+}
+
+/**
+ * Perf Lib
+ *
+ * A fake performance library emitting each PerfLibMetric it starts once the metric is stopped
+ */
+export class PerfLib {
+  subscribers = new Set<(metric: PerfLibMetric) => void>();
+  start(name: string) {
+    const metric = new PerfLibMetric(name);
+    metric.subscribe((instance: PerfLibMetric) => {
+      this.subscribers.forEach((subscriber) => subscriber(instance));
+    });
+    return metric;
+  }
+  onMetric(subscriber: (metric: PerfLibMetric) => void) {
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+}
+
+/**
+ * A reference plugin adapting PerfLib to the MetricsQueue. It subscribes to the library
+ * during setup, unsubscribes during teardown, and normalizes each PerfLibMetric into
+ * a measure-like object
+ *
+ * @param {PerfLib} library - the PerfLib instance to subscribe to
+ */
+export const createPerfLibPlugin = (library: PerfLib): PluginOptions => {
+  let unsubscribe: (() => void) | null = null;
+  return {
+    processAfterCallStack: true,
+    setup: (_queue, emit) => {
+      unsubscribe = library.onMetric((metric) => emit(metric.name, metric));
+    },
+    teardown: () => {
+      unsubscribe?.();
+      unsubscribe = null;
+    },
+    normalize: ([metric]: PerfLibMetric[]) => [
+      {
+        name: metric.name,
+        startTime: metric.startTime,
+        duration: metric.time - metric.startTime,
+        detail: { source: "perf-lib" },
+      },
+    ],
+  };
+};
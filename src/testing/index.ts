@@ -0,0 +1,6 @@
+export { FakePerformance } from "./FakePerformance";
+export { MetricsTestHarness } from "./MetricsTestHarness";
+export type { SimulatedMetric } from "./MetricsTestHarness";
+export { MetricExpectation, expectMetric, flushMicrotasks } from "./MetricExpectation";
+export type { ExpectationClock } from "./MetricExpectation";
+export { PerfLib, PerfLibMetric, createPerfLibPlugin } from "./PerfLib";
@@ -1,4 +1,4 @@
-import type { MetricsQueue } from "./MetricsQueue";
+import type { MetricsQueueInstance } from "./MetricsQueue";
 
 export type HashTable<T> = {
   [key: string]: T;
@@ -44,31 +44,415 @@ export type PerformanceMeasureMethod = (
 
 export type StartOrMeasureOptions = string | PerformanceMeasureOptions | undefined;
 
+export type TaskPriority = "user-blocking" | "user-visible" | "background";
+
+export type ScheduleStrategy = "sync" | "microtask" | "animationFrame" | "idle" | TaskPriority;
+
+export type ScheduleOptions = {
+  strategy: ScheduleStrategy;
+  timeout?: number;
+};
+
+export type Schedule = ScheduleStrategy | ScheduleOptions;
+
 export type PluginOptions = {
-  processAfterCallStack: boolean;
+  processAfterCallStack?: boolean;
+  schedule?: Schedule;
+  setup?: (queue: MetricsQueueInstance<any, any>, emit: PluginEmitter<any>) => void;
+  teardown?: () => void;
+  normalize?: (args: any[]) => any[];
+};
+
+export type BudgetPercentile = "p50" | "p75" | "p90" | "p95" | "p99";
+
+export type Budget = Partial<Record<"max" | BudgetPercentile, number>> & {
+  samples?: number;
+  minSamples?: number;
+};
+
+export type MetricStats = Record<BudgetPercentile, number> & {
+  count: number;
+  sampleSize: number;
+  last: number;
+  min: number;
+  max: number;
+  mean: number;
+};
+
+export type StatsConfig = {
+  samples?: number;
+};
+
+export type BudgetViolation = {
+  metric: string;
+  budget: "max" | BudgetPercentile;
+  value: number;
+  limit: number;
+  overshoot: number;
+  sampleSize: number;
+};
+
+export type ObserverConfig = {
+  entryTypes?: string[];
+  buffered?: boolean;
+  durationThreshold?: number;
+};
+
+export type WebVitalName = "LCP" | "CLS" | "INP" | "FCP" | "TTFB";
+
+export type WebVitalRating = "good" | "needs-improvement" | "poor";
+
+export type WebVital = {
+  name: WebVitalName;
+  value: number;
+  rating: WebVitalRating;
+  entries: PerformanceEntry[];
+};
+
+export type ErrorPhase =
+  | "listener"
+  | "passive-listener"
+  | "performance-api"
+  | "transport"
+  | "plugin"
+  | "leak-detection";
+
+export type ErrorContext = {
+  event: string;
+  listenerID?: string;
+  phase: ErrorPhase;
+};
+
+export type ErrorHandler = (error: unknown, context: ErrorContext) => void;
+
+export type ReportedMetric = {
+  name: string;
+  type: string;
+  value: number | null;
+  detail?: any;
+  timestamp: number;
+};
+
+export type TransportResult = boolean | void | Promise<boolean | void>;
+
+export type Transport = (batch: ReportedMetric[]) => TransportResult;
+
+export type MemoryTransport = Transport & {
+  batches: ReportedMetric[][];
+};
+
+export type ReporterConfig = {
+  transport: Transport;
+  maxBatchSize?: number;
+  maxBatchAge?: number;
+  retries?: number;
+  retryDelay?: number;
+  filter?: (metric: ReportedMetric) => boolean;
+};
+
+export type PerformanceBackend = {
+  now: () => number;
+  timeOrigin?: number;
+  mark: (...args: any[]) => any;
+  measure: (...args: any[]) => any;
+  getEntriesByName?: (name: string, type?: string) => PerformanceEntryList;
 };
 
-export type InitConfig = {
-  onReady?: (instance: MetricsQueue) => any;
+export type InitConfig<Plugins extends string = string, Events extends EventMap<Events> = DefaultEventMap> = {
+  onReady?: (instance: MetricsQueueInstance<Events, Plugins>) => any;
   usePerformanceAPI?: boolean;
-  plugins?: HashTable<PluginOptions>;
+  plugins?: Record<Plugins, PluginOptions>;
+  sticky?: boolean;
+  budgets?: HashTable<Budget>;
+  stats?: boolean | StatsConfig;
+  reporter?: ReporterConfig;
+  debug?: boolean | DebugConfig;
+  listenerTiming?: boolean | ListenerTimingConfig;
+  leakDetection?: boolean | LeakDetectionConfig;
+  observer?: boolean | ObserverConfig;
+  vitals?: boolean;
+  tiers?: TierConfig;
+  onError?: ErrorHandler;
+  maxListeners?: number;
+  performance?: PerformanceBackend;
+};
+
+export type IDGenerator = {
+  readonly nextID: string;
+};
+
+export type MetricIndexerOptions = {
+  onError?: ErrorHandler;
+  onExecute?: (execution: ListenerExecution) => void;
+  onRemove?: (ID: string) => void;
+  onEmpty?: (event: string) => void;
+  IDs?: IDGenerator;
 };
 
 export type MetricEvent = {
   listener: Listener;
   config: IndexedListenerConfig;
+  state?: ListenerState;
+  callSite?: string;
+};
+
+export type ListenerState = {
+  occurrences: number;
+  executions: number;
+  lastExecution?: number;
+  timer?: ReturnType<typeof setTimeout>;
+  batch?: Parameters<Listener>[];
+};
+
+export type ListenerExecution = {
+  event: string;
+  listenerID: string;
+  duration: number;
+  consumed: boolean;
+  threw: boolean;
+};
+
+export type BridgeEndpoint = {
+  postMessage: (message: any, ...transfer: any[]) => void;
+  addEventListener?: (type: "message", listener: (event: MessageEvent) => void) => void;
+  removeEventListener?: (type: "message", listener: (event: MessageEvent) => void) => void;
+  start?: () => void;
+};
+
+export type BridgeMessage = {
+  type: "metrics-queue:bridge";
+  source: string;
+  event: string;
+  args: any[];
+  timeOrigin: number;
+};
+
+export type BridgeConfig = {
+  source?: string;
+  forward?: (string | RegExp)[];
+  receive?: boolean | (string | RegExp)[];
+  prefix?: string;
+  targetOrigin?: string;
+  origins?: string[];
+  timeOrigin?: number;
+  onError?: (error: unknown) => void;
+};
+
+export type RecordedEmission = {
+  type: "mark" | "measure" | "plugin";
+  name: string;
+  args: any[];
+  time: number;
+};
+
+export type RecordedSession = {
+  version: number;
+  startedAt: number;
+  emissions: RecordedEmission[];
+};
+
+export type RecordingConfig = {
+  maxEmissions?: number;
+};
+
+export type ReplayOptions = {
+  speed?: number;
+  maxGap?: number;
+  signal?: AbortSignal;
+};
+
+export type PerformanceTier = "fast" | "average" | "slow";
+
+export type TierRule = {
+  metric: string;
+  fast: number;
+  slow: number;
+  weight?: number;
+  aggregate?: "last" | "max" | "count";
+};
+
+export type TierConfig = {
+  rules: TierRule[];
+  deadline?: number;
+  cutoffs?: { fast?: number; slow?: number };
+  fallback?: PerformanceTier;
+};
+
+export type TierChange = {
+  tier: PerformanceTier;
+  previous: PerformanceTier | null;
+  score: number | null;
+  committed: boolean;
+  values: HashTable<number>;
+};
+
+export type MeasureDefinition = {
+  start: string;
+  end: string;
+  repeat?: boolean;
+  detail?: any;
+};
+
+export type ListenerTimingConfig = {
+  budget?: number;
+  warn?: boolean;
+  measure?: boolean;
+};
+
+export type SlowListener = {
+  event: string;
+  listenerID: string;
+  duration: number;
+  budget: number;
+};
+
+export type ListenerSnapshot = {
+  ID: string;
+  config: IndexedListenerConfig;
+  callSite?: string;
+};
+
+export type LeakedListener = ListenerSnapshot & {
+  event: string;
+};
+
+export type ListenerLeak = {
+  type: "event-limit" | "global-limit" | "stale";
+  event?: string;
+  limit: number;
+  count: number;
+  listeners: LeakedListener[];
+};
+
+export type LeakDetectionConfig = {
+  mode?: "warn" | "throw" | "callback";
+  limits?: HashTable<number>;
+  maxTotalListeners?: number;
+  staleAfter?: number;
+  onLeak?: (leak: ListenerLeak) => void;
+};
+
+export type Inspection = {
+  events: HashTable<ListenerSnapshot[]>;
+  patterns: HashTable<ListenerSnapshot[]>;
+  composites: string[];
+};
+
+export type DebugConfig = {
+  log?: boolean;
+  bufferSize?: number;
+};
+
+export type TraceEntry =
+  | { type: "register"; event: string; listenerID: string; callSite?: string; timestamp: number }
+  | { type: "emit"; event: string; value: number | null; timestamp: number }
+  | ({ type: "listener"; timestamp: number } & ListenerExecution);
+
+export type ListenerCondition = {
+  durationAbove?: number;
+  durationBelow?: number;
+  detailMatches?: HashTable<any> | ((detail: any) => boolean);
+};
+
+export type ListenerPredicate = (...args: Parameters<Listener>) => boolean;
+
+export type BatchConfig = {
+  size?: number;
+  maxWait?: number;
 };
 
-export type ListenerConfig = {
+export type ListenerRateConfig = {
+  times?: number;
+  skip?: number;
+  throttle?: number;
+  debounce?: number;
+  batch?: BatchConfig;
+};
+
+export type ListenerConfig = ListenerRateConfig & {
   passive?: boolean;
+  schedule?: Schedule;
   keepAlive?: boolean;
+  sticky?: boolean;
+  when?: ListenerCondition | ListenerPredicate;
 };
 
-export type IndexedListenerConfig = {
+export type BatchedListenerConfig = ListenerConfig & { batch: BatchConfig };
+
+export type CompositeCondition<Event extends string = string> =
+  | { all: Event[] }
+  | { any: Event[] }
+  | { sequence: Event[] };
+
+export type CompositeMetrics = HashTable<Parameters<Listener>>;
+
+export type CompositeListenerCallback = (metrics: CompositeMetrics) => void;
+
+export type CompositeListenerConfig = Pick<ListenerConfig, "passive" | "keepAlive" | "sticky">;
+
+export type WaitForOptions = Omit<ListenerConfig, "keepAlive" | keyof ListenerRateConfig> & {
+  timeout?: number;
+  signal?: AbortSignal;
+};
+
+export type IndexedListenerConfig = ListenerRateConfig & {
   passive: boolean;
   keepAlive: boolean;
+  schedule?: Schedule;
+  when?: ListenerCondition | ListenerPredicate;
 };
 
-export type ListenerArguments = [event: string, callback: (...params: any[]) => any, config?: ListenerConfig];
+export type ListenerArguments = [
+  event: string | RegExp,
+  callback: (...params: any[]) => any,
+  config?: ListenerConfig
+];
 
 export type Listener = (...args: BustPluginMetric | BustPerformanceMark | BustPerformanceMeasure) => void;
+
+export type EventPattern = RegExp | `${string}*${string}`;
+
+export type PatternListener<Events extends EventMap<Events> = DefaultEventMap> = (
+  event: EventName<Events>,
+  ...args: any[]
+) => void;
+
+export type EventMap<Events = any> = { [Event in keyof Events]: any[] };
+
+export type DefaultEventMap = HashTable<Parameters<Listener>>;
+
+export type ReservedEventMap = {
+  "budget-violation": [violation: BudgetViolation];
+  "slow-listener": [slowListener: SlowListener];
+  "tier-change": [change: TierChange];
+  "metrics-queue:error": [error: unknown, context: ErrorContext];
+} & Record<WebVitalName, [vital: WebVital]>;
+
+export type EventName<Events extends EventMap<Events>> = Extract<
+  keyof Events | keyof ReservedEventMap,
+  string
+>;
+
+export type EventArguments<
+  Events extends EventMap<Events>,
+  Event extends EventName<Events>
+> = Event extends keyof Events
+  ? Events[Event]
+  : Event extends keyof ReservedEventMap
+  ? ReservedEventMap[Event]
+  : never;
+
+export type EventListener<Events extends EventMap<Events>, Event extends EventName<Events>> = (
+  ...args: EventArguments<Events, Event>
+) => void;
+
+export type BatchListener<Events extends EventMap<Events>, Event extends EventName<Events>> = (
+  batch: EventArguments<Events, Event>[]
+) => void;
+
+export type PluginEmitter<Events extends EventMap<Events> = DefaultEventMap> = <
+  Event extends EventName<Events>
+>(
+  event: Event,
+  ...args: EventArguments<Events, Event>
+) => void;